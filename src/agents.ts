@@ -0,0 +1,186 @@
+import { wrapManagedContent, removeManagedContent } from './merge.js';
+import { parseYaml, isYamlMapping } from './yaml.js';
+
+export type AgentName = 'codex' | 'claude' | 'gemini' | 'copilot' | 'cursor' | 'windsurf' | 'aider';
+
+export type CompanionMode = 'copy' | 'pointer';
+
+export interface AgentSelection {
+  name: AgentName;
+  mode: CompanionMode;
+}
+
+export interface CompanionFile {
+  output: string;
+  content: string;
+  merge?: (existing: string) => string | undefined;
+}
+
+interface AgentDefinition {
+  description: string;
+  defaultMode: CompanionMode;
+  files: (instructions: string, mode: CompanionMode) => CompanionFile[];
+}
+
+const POINTER = 'Follow the project instructions in AGENTS.md at the repository root.';
+const CURSOR_RULE = '.cursor/rules/create-codex.mdc';
+const AIDER_CONFIG = '.aider.conf.yml';
+
+function cursorRule(body: string): string {
+  const frontmatter = [
+    '---',
+    'description: Project instructions generated by create-codex',
+    'globs:',
+    'alwaysApply: true',
+    '---'
+  ].join('\n');
+  
+  return `${frontmatter}\n${wrapManagedContent(body, CURSOR_RULE)}`;
+}
+
+function importPointer(title: string): string {
+  return `# ${title}\n\n${POINTER}\n\n@AGENTS.md\n`;
+}
+
+function yamlScalar(value: string): string {
+  return /^[\w./@+][\w./@+-]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+function readAiderEntries(content: string): string[] {
+  let config;
+  try {
+    config = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `INVALID YAML: ${AIDER_CONFIG}\n` +
+      `Problem: ${error instanceof Error ? error.message : String(error)}\n` +
+      `Action: Fix the file and retry`
+    );
+  }
+  
+  const read = isYamlMapping(config) ? config['read'] : undefined;
+  const entries = read === null || read === undefined ? [] : Array.isArray(read) ? read : [read];
+  if (!entries.every(entry => typeof entry === 'string')) {
+    throw new Error(
+      `UNSUPPORTED VALUE: read in ${AIDER_CONFIG}\n` +
+      `Expected: a file name or a list of file names\n` +
+      `Action: Fix the read: key and retry`
+    );
+  }
+  return entries as string[];
+}
+
+function mergeAiderConfig(files: string[]): (existing: string) => string | undefined {
+  return existing => {
+    const lines = removeManagedContent(existing, AIDER_CONFIG).split('\n');
+    const start = lines.findIndex(line => /^read\s*:/.test(line));
+    if (start === -1) return undefined;
+    
+    const current = readAiderEntries(lines.join('\n'));
+    const missing = files.filter(file => !current.includes(file));
+    if (missing.length === 0) return `${lines.join('\n').replace(/\s+$/, '')}\n`;
+    
+    let end = start + 1;
+    while (end < lines.length && /^(\s|-|$)/.test(lines[end]!)) end++;
+    while (end > start + 1 && lines[end - 1]!.trim() === '') end--;
+    
+    const entries = [...current, ...missing].map(file => `  - ${yamlScalar(file)}`);
+    lines.splice(start, end - start, 'read:', ...entries);
+    return `${lines.join('\n').replace(/\s+$/, '')}\n`;
+  };
+}
+
+function aiderConfig(files: string[]): CompanionFile {
+  return {
+    output: AIDER_CONFIG,
+    content: `read:\n${files.map(file => `  - ${file}\n`).join('')}`,
+    merge: mergeAiderConfig(files)
+  };
+}
+
+export const AGENTS: Record<AgentName, AgentDefinition> = {
+  codex: {
+    description: 'AGENTS.md and .codex/ (always generated)',
+    defaultMode: 'copy',
+    files: () => []
+  },
+  claude: {
+    description: 'CLAUDE.md',
+    defaultMode: 'pointer',
+    files: (instructions, mode) => [
+      { output: 'CLAUDE.md', content: mode === 'copy' ? instructions : importPointer('CLAUDE.md') }
+    ]
+  },
+  gemini: {
+    description: 'GEMINI.md',
+    defaultMode: 'pointer',
+    files: (instructions, mode) => [
+      { output: 'GEMINI.md', content: mode === 'copy' ? instructions : importPointer('GEMINI.md') }
+    ]
+  },
+  copilot: {
+    description: '.github/copilot-instructions.md',
+    defaultMode: 'copy',
+    files: (instructions, mode) => [{
+      output: '.github/copilot-instructions.md',
+      content: mode === 'copy'
+        ? instructions
+        : '# Copilot Instructions\n\nFollow the project instructions in [AGENTS.md](../AGENTS.md).\n'
+    }]
+  },
+  cursor: {
+    description: `${CURSOR_RULE} (always-applied rule)`,
+    defaultMode: 'pointer',
+    files: (instructions, mode) => [
+      { output: CURSOR_RULE, content: cursorRule(mode === 'copy' ? instructions : `${POINTER}\n\n@AGENTS.md\n`) }
+    ]
+  },
+  windsurf: {
+    description: '.windsurfrules',
+    defaultMode: 'copy',
+    files: (instructions, mode) => [
+      { output: '.windsurfrules', content: mode === 'copy' ? instructions : `${POINTER}\n` }
+    ]
+  },
+  aider: {
+    description: 'CONVENTIONS.md and the read: entry in .aider.conf.yml',
+    defaultMode: 'copy',
+    files: (instructions, mode) => [
+      { output: 'CONVENTIONS.md', content: mode === 'copy' ? instructions : `# Conventions\n\n${POINTER}\n` },
+      aiderConfig(mode === 'copy' ? ['CONVENTIONS.md'] : ['CONVENTIONS.md', 'AGENTS.md'])
+    ]
+  }
+};
+
+export const AGENT_NAMES = Object.keys(AGENTS) as AgentName[];
+
+function isAgentName(value: string): value is AgentName {
+  return Object.hasOwn(AGENTS, value);
+}
+
+export function parseAgents(specs: string[]): AgentSelection[] {
+  const selections = new Map<AgentName, AgentSelection>();
+  
+  for (const spec of specs.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean)) {
+    const [name = '', mode, ...rest] = spec.toLowerCase().split(':');
+    
+    if (!isAgentName(name) || rest.length > 0 || (mode !== undefined && mode !== 'copy' && mode !== 'pointer')) {
+      throw new Error(
+        `INVALID AGENT: ${spec}\n` +
+        `Expected: <agent>[:copy|:pointer] with agent one of ${AGENT_NAMES.join(', ')}\n` +
+        `Action: Fix --agents or "agents" in the config file and retry`
+      );
+    }
+    selections.set(name, { name, mode: mode ?? AGENTS[name].defaultMode });
+  }
+  
+  return [...selections.values()];
+}
+
+export function renderCompanionFiles(instructions: string, agents: AgentSelection[]): CompanionFile[] {
+  return agents.flatMap(agent => AGENTS[agent.name].files(instructions, agent.mode));
+}
+
+export function describeAgents(agents: AgentSelection[]): string {
+  return agents.map(agent => agent.name === 'codex' ? agent.name : `${agent.name}:${agent.mode}`).join(', ');
+}
@@ -225,6 +225,12 @@ export async function atomicMove(
   }
 }
 
+export interface RollbackFailure {
+  path: string;
+  error: string;
+  backup?: string;
+}
+
 export class TransactionLog {
   private operations: Array<{ type: string; path: string; backup?: string }> = [];
   private backupDir: string;
@@ -246,35 +252,53 @@ export class TransactionLog {
     this.operations.push({ type: 'backup', path, backup: backupPath });
   }
   
+  async mkdir(path: string): Promise<void> {
+    const created = await fs.mkdir(path, { recursive: true });
+    if (created) this.operations.push({ type: 'mkdir', path: created });
+  }
+  
   async write(path: string, content: string | Buffer): Promise<void> {
+    await this.mkdir(dirname(path));
     await this.backup(path);
     await atomicWrite(path, content);
     this.operations.push({ type: 'write', path });
   }
   
   async copy(source: string, target: string): Promise<void> {
+    await this.mkdir(dirname(target));
     await this.backup(target);
     await atomicCopy(source, target);
     this.operations.push({ type: 'copy', path: target });
   }
   
-  async rollback(): Promise<void> {
+  async rollback(): Promise<RollbackFailure[]> {
+    const failures: RollbackFailure[] = [];
+    
     for (const op of this.operations.reverse()) {
-      if (op.type === 'backup' && op.backup) {
-        try {
+      try {
+        if (op.type === 'backup' && op.backup) {
           await atomicMove(op.backup, op.path);
-        } catch (error) {
-          console.error(`Failed to rollback ${op.path}: ${error}`);
-        }
-      } else if (op.type === 'write' || op.type === 'copy') {
-        try {
+        } else {
           await fs.rm(op.path, { recursive: true, force: true });
-        } catch {}
+        }
+      } catch (error) {
+        failures.push({
+          path: op.path,
+          error: error instanceof Error ? error.message : String(error),
+          ...(op.backup ? { backup: op.backup } : {})
+        });
       }
     }
+    this.operations = [];
+    
+    if (failures.every(failure => !failure.backup)) {
+      await fs.rm(this.backupDir, { recursive: true, force: true }).catch(() => {});
+    }
+    return failures;
   }
   
   async commit(): Promise<void> {
+    this.operations = [];
     try {
       await fs.rm(this.backupDir, { recursive: true, force: true });
     } catch {}
@@ -0,0 +1,260 @@
+import { promises as fs } from 'node:fs';
+import { join, resolve, sep } from 'node:path';
+import {
+  BACKUP_PREFIX,
+  BACKUP_MANIFEST,
+  backupExisting,
+  createBackupDir,
+  getAllFiles,
+  hashFile,
+  readBackupManifest,
+  verifyBackup
+} from './files.js';
+import { TransactionLog, type RollbackFailure } from './atomic.js';
+import { loadConfig } from './config.js';
+import { InitError } from './init.js';
+import { exists } from './utils.js';
+import { ErrorCode } from './types.js';
+import { logger, LogLevel, configureLogger } from './logger.js';
+
+export interface BackupInfo {
+  id: string;
+  path: string;
+  createdAt: string;
+  files: string[];
+  verifiable: boolean;
+}
+
+export interface BackupCommandOptions {
+  backupDir?: string | undefined;
+  noBackup?: boolean;
+}
+
+export interface RestoreOptions extends BackupCommandOptions {
+  id?: string | undefined;
+}
+
+export interface PruneOptions extends BackupCommandOptions {
+  keep: number;
+}
+
+export interface BackupsResult {
+  success: boolean;
+  message: string;
+  backups: BackupInfo[];
+  restored?: string[];
+  removed?: string[];
+  safetyBackupDir?: string;
+  rollbackFailures?: RollbackFailure[];
+  errorCode?: ErrorCode;
+}
+
+const BACKUP_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+export function isBackupId(value: string): boolean {
+  return BACKUP_ID.test(value.startsWith(BACKUP_PREFIX) ? value.slice(BACKUP_PREFIX.length) : value);
+}
+
+function idToIso(id: string): string {
+  const [date, time = ''] = id.split('T');
+  const [hours, minutes, seconds, millis] = time.replace(/Z$/, '').split('-');
+  return `${date}T${hours}:${minutes}:${seconds}.${millis}Z`;
+}
+
+async function resolveBackupRoot(projectPath: string, options: BackupCommandOptions): Promise<string> {
+  if (options.backupDir) return resolve(options.backupDir);
+  
+  const { config } = await loadConfig(projectPath).catch(error => {
+    throw new InitError(error instanceof Error ? error.message : String(error), ErrorCode.INVALID_CONFIG);
+  });
+  return config.backup?.dir ?? projectPath;
+}
+
+async function describeBackup(path: string, id: string, projectPath: string): Promise<BackupInfo | undefined> {
+  const manifest = await readBackupManifest(path);
+  if (manifest && manifest.project !== resolve(projectPath)) return undefined;
+  
+  const files = manifest
+    ? Object.keys(manifest.files).sort()
+    : (await getAllFiles(path)).map(file => file.split(sep).join('/')).sort();
+  
+  return {
+    id,
+    path,
+    createdAt: manifest?.createdAt ?? idToIso(id),
+    files,
+    verifiable: manifest !== undefined
+  };
+}
+
+async function findBackups(projectPath: string, options: BackupCommandOptions): Promise<BackupInfo[]> {
+  const root = await resolveBackupRoot(projectPath, options);
+  const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+  
+  const backups: BackupInfo[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith(BACKUP_PREFIX)) continue;
+    
+    const id = entry.name.slice(BACKUP_PREFIX.length);
+    if (!BACKUP_ID.test(id)) continue;
+    
+    const info = await describeBackup(join(root, entry.name), id, projectPath);
+    if (info) backups.push(info);
+  }
+  
+  return backups.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+async function verifyManifest(backup: BackupInfo): Promise<void> {
+  const manifest = await readBackupManifest(backup.path);
+  if (!manifest) return;
+  
+  for (const [file, expected] of Object.entries(manifest.files)) {
+    const backupPath = join(backup.path, file);
+    const actual = await exists(backupPath) ? await hashFile(backupPath) : 'missing';
+    if (actual !== expected) {
+      throw new InitError(
+        `CRITICAL: Backup verification failed\n` +
+        `File: ${file}\n` +
+        `SHA256 mismatch detected - the backup was modified or is incomplete\n` +
+        `Action: DO NOT RESTORE - inspect ${backup.path} manually`,
+        ErrorCode.BACKUP_VERIFICATION_FAILED
+      );
+    }
+  }
+}
+
+function selectBackup(backups: BackupInfo[], id?: string): BackupInfo {
+  const wanted = id?.startsWith(BACKUP_PREFIX) ? id.slice(BACKUP_PREFIX.length) : id;
+  const backup = wanted ? backups.find(candidate => candidate.id === wanted) : backups[0];
+  
+  if (!backup) {
+    throw new InitError(
+      (wanted ? `BACKUP NOT FOUND: ${wanted}\n` : `NO BACKUPS FOUND\n`) +
+      `Action: Run 'create-codex backups list' to see available backups`,
+      ErrorCode.BACKUP_NOT_FOUND
+    );
+  }
+  return backup;
+}
+
+function failure(error: unknown, action: string): BackupsResult {
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+  const errorCode = error instanceof InitError ? error.code : ErrorCode.UNKNOWN_ERROR;
+  
+  logger.error(`${action} failed`, { error: message, code: errorCode });
+  return { success: false, message, backups: [], errorCode };
+}
+
+export async function listBackups(
+  projectPath: string,
+  options: BackupCommandOptions = {}
+): Promise<BackupsResult> {
+  configureLogger({ level: LogLevel.INFO, silent: true });
+  
+  try {
+    const found = await findBackups(projectPath, options);
+    return {
+      success: true,
+      message: found.length === 0 ? 'No backups found' : `${found.length} backup(s) found`,
+      backups: found
+    };
+  } catch (error) {
+    return failure(error, 'Listing backups');
+  }
+}
+
+export async function restore(
+  projectPath: string,
+  options: RestoreOptions = {}
+): Promise<BackupsResult> {
+  configureLogger({ level: LogLevel.INFO, silent: true });
+  
+  const tx = new TransactionLog();
+  
+  try {
+    const backup = selectBackup(await findBackups(projectPath, options), options.id);
+    await verifyManifest(backup);
+    
+    const root = resolve(projectPath);
+    const targets = backup.files.filter(file => file !== BACKUP_MANIFEST);
+    for (const file of targets) {
+      if (!resolve(root, file).startsWith(root + sep)) {
+        throw new InitError(
+          `SECURITY: Path traversal attempt blocked\n` +
+          `File: ${file}\n` +
+          `Action: Inspect ${backup.path} manually`,
+          ErrorCode.SECURITY_PATH_TRAVERSAL
+        );
+      }
+    }
+    
+    await tx.init();
+    let safetyBackupDir: string | undefined;
+    
+    for (const file of targets) {
+      const targetPath = join(projectPath, file);
+      const sourcePath = join(backup.path, file);
+      
+      if (!options.noBackup && await exists(targetPath)) {
+        safetyBackupDir ??= await createBackupDir(projectPath, { dir: await resolveBackupRoot(projectPath, options) }, tx);
+        await backupExisting(tx, projectPath, file, safetyBackupDir);
+      }
+      
+      await tx.copy(sourcePath, targetPath);
+      await verifyBackup(targetPath, sourcePath);
+    }
+    
+    await tx.commit();
+    logger.info('Backup restored', { backup: backup.path, files: targets.length });
+    
+    return {
+      success: true,
+      message: `Restored ${targets.length} file(s) from ${backup.id}`,
+      backups: [backup],
+      restored: targets,
+      ...(safetyBackupDir ? { safetyBackupDir } : {})
+    };
+  } catch (error) {
+    const rollbackFailures = await tx.rollback();
+    return {
+      ...failure(error, 'Restore'),
+      ...(rollbackFailures.length > 0 ? { rollbackFailures } : {})
+    };
+  }
+}
+
+export async function pruneBackups(
+  projectPath: string,
+  options: PruneOptions
+): Promise<BackupsResult> {
+  configureLogger({ level: LogLevel.INFO, silent: true });
+  
+  try {
+    if (!Number.isInteger(options.keep) || options.keep < 0) {
+      throw new InitError(
+        `INVALID VALUE: --keep must be a non-negative integer\n` +
+        `Action: Pass the number of backups to keep, e.g. --keep 5`,
+        ErrorCode.VALIDATION_FAILED
+      );
+    }
+    
+    const found = await findBackups(projectPath, options);
+    const removed = found.slice(options.keep);
+    
+    for (const backup of removed) {
+      await fs.rm(backup.path, { recursive: true, force: true });
+    }
+    
+    return {
+      success: true,
+      message: removed.length === 0
+        ? `Nothing to prune (${found.length} backup(s), keeping ${options.keep})`
+        : `Removed ${removed.length} backup(s), kept ${found.length - removed.length}`,
+      backups: found.slice(0, options.keep),
+      removed: removed.map(backup => backup.id)
+    };
+  } catch (error) {
+    return failure(error, 'Pruning backups');
+  }
+}
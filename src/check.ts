@@ -0,0 +1,167 @@
+import { promises as fs } from 'node:fs';
+import { basename, join } from 'node:path';
+import { getPinnedTimestamp } from './projects.js';
+import type { PlannedFile } from './files.js';
+import { createUnifiedDiff } from './diff.js';
+import { validateSkelFiles, prepareRun, planRun, InitError, type PreparedRun } from './init.js';
+import { ErrorCode, type PackageManager, type TemplateVariables } from './types.js';
+import type { MergeMode } from './merge.js';
+import type { CodexSettings } from './codex-config.js';
+import { logger, LogLevel, configureLogger } from './logger.js';
+
+export interface CheckOptions {
+  mergeMode?: MergeMode;
+  templateDir?: string | undefined;
+  packageManager?: PackageManager;
+  variables?: Record<string, string>;
+  agents?: string[];
+  codex?: CodexSettings;
+}
+
+export type CheckStatus = 'in-sync' | 'drifted' | 'missing';
+
+export interface CheckFileResult {
+  path: string;
+  status: CheckStatus;
+  diff: string;
+}
+
+export interface CheckResult {
+  success: boolean;
+  inSync: boolean;
+  files: CheckFileResult[];
+  message: string;
+  errorCode?: ErrorCode;
+}
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z/g;
+
+const LOCATION_MASKS = [
+  { name: 'PROJECT_PATH', mask: '\u20630\u2063', placeholder: '<project-path>' },
+  { name: 'PROJECT_NAME', mask: '\u20631\u2063', placeholder: '<project-name>' }
+];
+const MASK_PATTERN = /\u2063\d\u2063/g;
+
+function normalize(text: string, pinned: boolean): string {
+  return pinned ? text : text.replace(ISO_TIMESTAMP, '<timestamp>');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function maskLocation(variables: TemplateVariables, projectPath: string): TemplateVariables {
+  const masked: TemplateVariables = { ...variables };
+  for (const { name, mask } of LOCATION_MASKS) {
+    if (name === 'PROJECT_NAME' && variables.PROJECT_NAME !== basename(projectPath)) continue;
+    masked[name] = mask;
+  }
+  return masked;
+}
+
+function maskRun(run: PreparedRun, projectPath: string): PreparedRun {
+  return {
+    ...run,
+    templateVariables: maskLocation(run.templateVariables, projectPath),
+    memberVariables: run.memberVariables.map(member => ({
+      ...member,
+      variables: maskLocation(member.variables, join(projectPath, member.path))
+    }))
+  };
+}
+
+function unmask(text: string): string {
+  return LOCATION_MASKS.reduce((result, { mask, placeholder }) => result.split(mask).join(placeholder), text);
+}
+
+function normalizeLocation(existing: string, masked: string): { current: string; expected: string } {
+  const current = existing.split('\n');
+  const lines = masked.split('\n');
+  
+  lines.forEach((line, index) => {
+    if (!line.includes('\u2063')) return;
+    
+    const pattern = new RegExp(`^${escapeRegExp(line).replace(MASK_PATTERN, '.*')}$`);
+    const previous = unmask(lines[index - 1] ?? '');
+    const target = pattern.test(current[index] ?? '') ? index
+      : current.findIndex((candidate, at) => at > 0 && current[at - 1] === previous && pattern.test(candidate));
+    if (target >= 0) current[target] = unmask(line);
+  });
+  
+  return { current: current.join('\n'), expected: unmask(masked) };
+}
+
+function compareFile(file: PlannedFile, masked: PlannedFile | undefined, pinned: boolean): CheckFileResult {
+  const location = normalizeLocation(file.existing ?? '', masked?.content ?? file.content);
+  const current = normalize(location.current, pinned);
+  const expected = normalize(location.expected, pinned);
+  
+  const status: CheckStatus = file.existing === undefined ? 'missing'
+    : current === expected ? 'in-sync'
+    : 'drifted';
+  
+  const diff = status === 'in-sync' ? '' : createUnifiedDiff(current, expected, {
+    fromFile: `a/${file.path}`,
+    toFile: `b/${file.path}`
+  });
+  
+  return { path: file.path, status, diff };
+}
+
+async function validateCheckTarget(projectPath: string): Promise<void> {
+  const targetStat = await fs.stat(projectPath).catch(() => null);
+  if (!targetStat?.isDirectory()) {
+    throw new InitError(
+      `INVALID PATH: Not a directory\n` +
+      `Action: Ensure path exists and is a directory`,
+      ErrorCode.INVALID_TARGET_DIRECTORY
+    );
+  }
+}
+
+export async function check(
+  projectPath: string,
+  options: CheckOptions = {}
+): Promise<CheckResult> {
+  configureLogger({
+    level: LogLevel.INFO,
+    silent: true
+  });
+  
+  try {
+    await validateSkelFiles();
+    await validateCheckTarget(projectPath);
+    
+    const run = await prepareRun(projectPath, options);
+    const planned = await planRun(projectPath, run);
+    const masked = await planRun(projectPath, maskRun(run, projectPath));
+    
+    const pinned = getPinnedTimestamp() !== undefined;
+    const files = planned.map(file => compareFile(file, masked.find(entry => entry.path === file.path), pinned));
+    const outdated = files.filter(file => file.status !== 'in-sync');
+    
+    return {
+      success: true,
+      inSync: outdated.length === 0,
+      files,
+      message: outdated.length === 0
+        ? `All ${files.length} generated files are up to date`
+        : `${outdated.length} of ${files.length} generated files are out of date: ` +
+          outdated.map(file => `${file.path} (${file.status})`).join(', ')
+    };
+  
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof InitError ? error.code : ErrorCode.UNKNOWN_ERROR;
+    
+    logger.error('Check failed', { error: errorMessage, code: errorCode });
+    
+    return {
+      success: false,
+      inSync: false,
+      files: [],
+      message: errorMessage,
+      errorCode
+    };
+  }
+}
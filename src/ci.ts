@@ -0,0 +1,198 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseYaml, getYamlList, getYamlMapping, isYamlMapping, type YamlMapping, type YamlValue } from './yaml.js';
+import type { Evidence } from './types.js';
+import { logger } from './logger.js';
+
+export type CiRole = 'install' | 'lint' | 'build' | 'test';
+
+export interface CiCommand {
+  command: string;
+  role: CiRole;
+  file: string;
+  job: string;
+}
+
+interface CiStep {
+  job: string;
+  script: string;
+}
+
+const GITLAB_KEYWORDS = new Set([
+  'image', 'services', 'stages', 'types', 'before_script', 'after_script', 'variables', 'cache', 'include',
+  'default', 'workflow', 'spec'
+]);
+
+const AZURE_SCRIPT_KEYS = ['script', 'bash', 'pwsh', 'powershell'];
+
+const IGNORED_COMMAND = new RegExp(
+  '^(echo|printf|cd|export|set|source|sudo|apt|apt-get|brew|choco|curl|wget|git|docker|podman|kubectl|helm|' +
+  'terraform|aws|gcloud|az|ssh|scp|rsync|mkdir|cp|mv|rm|cat|ls|chmod|sleep|rustup|corepack|nvm|pipx|' +
+  'if|then|else|fi|for|do|done)(\\s|$)'
+);
+
+const ROLE_PATTERNS: Array<{ role: CiRole; pattern: RegExp }> = [
+  {
+    role: 'install',
+    pattern: new RegExp(
+      '^(npm (ci|install|i)|pnpm (install|i)|bun install|poetry install|uv sync|pdm install|pipenv install|' +
+      'rye sync|hatch env create|(python3? -m )?pip3? install (-r|-e|\\.)|go mod download|bundle install|' +
+      'composer install|cargo fetch)(\\s|$)|^yarn( install)?( --[\\w-]+)*$'
+    )
+  },
+  {
+    role: 'lint',
+    pattern: /(^|[\s:])(lint|eslint|biome (check|lint|ci)|ruff( check)?|flake8|pylint|golangci-lint|clippy|rubocop|stylelint|ktlint|checkstyle|go vet)(\s|:|$)/
+  },
+  {
+    role: 'test',
+    pattern: /(^|[\s:/])(test|tests|pytest|jest|vitest|mocha|ctest|rspec|phpunit|tox|nox)(\s|:|$)/
+  },
+  {
+    role: 'build',
+    pattern: /(^|[\s:/])(build|compile|package|assemble|webpack|make)(\s|:|$)/
+  }
+];
+
+async function readText(path: string): Promise<string | undefined> {
+  return readFile(path, 'utf-8').catch(() => undefined);
+}
+
+function readConfig(content: string, file: string): YamlMapping | undefined {
+  try {
+    const config = parseYaml(content);
+    return isYamlMapping(config) ? config : undefined;
+  } catch (error) {
+    logger.debug(`Failed to parse ${file}`, { error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
+
+function scriptLines(value: YamlValue | undefined): string[] {
+  if (typeof value === 'string') return [value];
+  return Array.isArray(value) ? value.flatMap(scriptLines) : [];
+}
+
+function readGitHubSteps(config: YamlMapping): CiStep[] {
+  return Object.entries(getYamlMapping(config, 'jobs') ?? {}).flatMap(([job, definition]) =>
+    (isYamlMapping(definition) ? getYamlList(definition, 'steps') : [])
+      .filter(isYamlMapping)
+      .filter(step => typeof step['run'] === 'string' && step['working-directory'] === undefined)
+      .map(step => ({ job, script: step['run'] as string }))
+  );
+}
+
+function readGitLabSteps(config: YamlMapping): CiStep[] {
+  const jobs = Object.entries(config).filter(([name, job]) => !GITLAB_KEYWORDS.has(name) && isYamlMapping(job));
+  const templates = new Map(jobs.filter(([name]) => name.startsWith('.')));
+  const steps: CiStep[] = [];
+  
+  const defaults = scriptLines(getYamlMapping(config, 'default')?.['before_script'] ?? config['before_script']);
+  if (defaults.length > 0) steps.push({ job: 'default', script: defaults.join('\n') });
+  
+  for (const [name, job] of jobs) {
+    if (name.startsWith('.') || !isYamlMapping(job)) continue;
+    
+    const parents = scriptLines(job['extends']).map(parent => templates.get(parent)).filter(isYamlMapping);
+    const lookup = (key: string) => job[key] ?? parents.map(parent => parent[key]).find(value => value !== undefined);
+    const script = [...scriptLines(lookup('before_script')), ...scriptLines(lookup('script'))];
+    if (script.length > 0) steps.push({ job: name, script: script.join('\n') });
+  }
+  
+  return steps;
+}
+
+function readCircleCiSteps(config: YamlMapping): CiStep[] {
+  return Object.entries(getYamlMapping(config, 'jobs') ?? {}).flatMap(([job, definition]) =>
+    (isYamlMapping(definition) ? getYamlList(definition, 'steps') : [])
+      .filter(isYamlMapping)
+      .map(step => step['run'])
+      .map(run => isYamlMapping(run) && run['working_directory'] === undefined ? run['command'] : run)
+      .filter((script): script is string => typeof script === 'string')
+      .map(script => ({ job, script }))
+  );
+}
+
+function readAzureSteps(config: YamlMapping): CiStep[] {
+  const fromSteps = (job: string, steps: YamlValue[]): CiStep[] => steps
+    .filter(isYamlMapping)
+    .filter(step => step['workingDirectory'] === undefined)
+    .flatMap(step => AZURE_SCRIPT_KEYS.map(key => step[key]))
+    .filter((script): script is string => typeof script === 'string')
+    .map(script => ({ job, script }));
+  const fromJobs = (jobs: YamlValue[]): CiStep[] => jobs
+    .filter(isYamlMapping)
+    .flatMap(job => fromSteps(String(job['job'] ?? job['deployment'] ?? 'job'), getYamlList(job, 'steps')));
+  
+  return [
+    ...fromSteps('steps', getYamlList(config, 'steps')),
+    ...fromJobs(getYamlList(config, 'jobs')),
+    ...getYamlList(config, 'stages').filter(isYamlMapping).flatMap(stage => fromJobs(getYamlList(stage, 'jobs')))
+  ];
+}
+
+async function findGitHubWorkflows(projectPath: string): Promise<string[]> {
+  const entries = await readdir(join(projectPath, '.github', 'workflows')).catch(() => []);
+  return entries.filter(name => /\.ya?ml$/.test(name)).sort().map(name => `.github/workflows/${name}`);
+}
+
+const CI_PROVIDERS: Array<{ files: (projectPath: string) => Promise<string[]>; read: (config: YamlMapping) => CiStep[] }> = [
+  { files: findGitHubWorkflows, read: readGitHubSteps },
+  { files: async () => ['.gitlab-ci.yml'], read: readGitLabSteps },
+  { files: async () => ['.circleci/config.yml'], read: readCircleCiSteps },
+  { files: async () => ['azure-pipelines.yml', '.azure-pipelines.yml'], read: readAzureSteps }
+];
+
+export function splitCiScript(script: string): string[] {
+  return script
+    .replace(/\\\r?\n\s*/g, ' ')
+    .split('\n')
+    .flatMap(line => {
+      const commands: string[] = [];
+      for (const part of line.split(/\s+&&\s+/)) {
+        const command = part.trim().replace(/\s+/g, ' ');
+        if (/^cd(\s|$)/.test(command)) break;
+        if (command) commands.push(command);
+      }
+      return commands;
+    });
+}
+
+export function classifyCiCommand(command: string): CiRole | undefined {
+  if (command.startsWith('#') || IGNORED_COMMAND.test(command) || /\$\{\{|\$\(/.test(command)) return undefined;
+  if (/\s(-g|--global)(\s|$)/.test(command)) return undefined;
+  return ROLE_PATTERNS.find(({ pattern }) => pattern.test(command))?.role;
+}
+
+export async function detectCiCommands(projectPath: string): Promise<CiCommand[]> {
+  const commands: CiCommand[] = [];
+  const seen = new Set<string>();
+  
+  for (const { files, read } of CI_PROVIDERS) {
+    for (const file of await files(projectPath)) {
+      const content = await readText(join(projectPath, file));
+      const config = content === undefined ? undefined : readConfig(content, file);
+      if (!config) continue;
+      
+      for (const { job, script } of read(config)) {
+        for (const command of splitCiScript(script)) {
+          const role = classifyCiCommand(command);
+          if (!role || seen.has(command)) continue;
+          
+          seen.add(command);
+          commands.push({ command, role, file, job });
+        }
+      }
+    }
+  }
+  
+  return commands;
+}
+
+export function explainCiCommands(commands: CiCommand[]): Partial<Record<CiRole, Evidence>> {
+  const explained: Partial<Record<CiRole, Evidence>> = {};
+  for (const { command, role, file, job } of commands) {
+    explained[role] ??= { value: command, source: `${file} job "${job}"` };
+  }
+  return explained;
+}
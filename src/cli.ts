@@ -1,26 +1,180 @@
 #!/usr/bin/env node
 
-import { init } from './init.js';
+import { init, type InitResult, type PreviewStatus, type ResolvedSetting } from './init.js';
+import { check } from './check.js';
+import { detect, type DetectEntry } from './detect.js';
+import type { MergeMode } from './merge.js';
+import { parseVariableAssignment } from './variables.js';
+import { parseAgents, AGENTS, AGENT_NAMES } from './agents.js';
+import {
+  APPROVAL_POLICIES,
+  SANDBOX_MODES,
+  type ApprovalPolicy,
+  type CodexSettings,
+  type SandboxMode
+} from './codex-config.js';
+import { runWizard, saveWizardAnswers, WizardCancelledError } from './wizard.js';
+import { CONFIG_FILES, getSchemaEnum, type ConfigOverrides } from './config.js';
+import {
+  listBackups,
+  restore,
+  pruneBackups,
+  isBackupId,
+  type BackupCommandOptions,
+  type BackupsResult
+} from './backups.js';
+import type { BackupOptions, WrittenFileStatus } from './files.js';
+import { ErrorCode, type PackageManager, type ProjectContext, type TemplateVariables } from './types.js';
+import type { RollbackFailure } from './atomic.js';
 import { readFileSync } from 'node:fs';
 import { join, dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-function validateArgs(args: string[]): { dryRun: boolean; directory: string | undefined } {
-  const processedArgs = args[0] === 'init' ? args.slice(1) : args;
-  let dryRun = false;
-  let directory: string | undefined;
-  
-  for (const arg of processedArgs) {
-    if (arg?.startsWith('-')) {
-      if (!['--help', '-h', '--version', '-v', '--dry-run'].includes(arg)) {
+type Command = 'init' | 'check' | 'detect' | 'backups' | 'restore';
+type BackupsAction = 'list' | 'prune';
+
+interface CliArgs {
+  command: Command;
+  dryRun: boolean;
+  yes: boolean;
+  json: boolean;
+  show: boolean;
+  directory: string | undefined;
+  mergeMode?: MergeMode;
+  templateDir?: string;
+  packageManager?: PackageManager;
+  variables: Record<string, string>;
+  agents?: string[];
+  codex?: CodexSettings;
+  backup?: BackupOptions;
+  backupsAction?: BackupsAction;
+  backupId?: string;
+  keep?: number;
+}
+
+const COMMANDS: Command[] = ['init', 'check', 'detect', 'backups', 'restore'];
+const BOOLEAN_FLAGS = ['--help', '-h', '--version', '-v', '--dry-run', '--yes', '-y', '--no-backup', '--json', '--show'];
+const VALUE_FLAGS = [
+  '--merge',
+  '--template',
+  '--package-manager',
+  '--var',
+  '--agents',
+  '--approval-policy',
+  '--sandbox',
+  '--writable-root',
+  '--backup-dir',
+  '--keep'
+];
+
+function applyValueFlag(parsed: CliArgs, flag: string, value: string): void {
+  switch (flag) {
+    case '--merge':
+      if (value !== 'append' && value !== 'adopt') {
+        throw new Error(`Invalid value for --merge: ${value} (expected append or adopt)`);
+      }
+      parsed.mergeMode = value;
+      break;
+    case '--template':
+      parsed.templateDir = resolve(value);
+      break;
+    case '--package-manager': {
+      const managers = getSchemaEnum('packageManager');
+      if (!managers.includes(value)) {
+        throw new Error(`Invalid value for --package-manager: ${value} (expected ${managers.join(', ')})`);
+      }
+      parsed.packageManager = value as PackageManager;
+      break;
+    }
+    case '--var': {
+      const [key, assigned] = parseVariableAssignment(value);
+      parsed.variables[key] = assigned;
+      break;
+    }
+    case '--agents':
+      parseAgents([value]);
+      parsed.agents = [...parsed.agents ?? [], value];
+      break;
+    case '--approval-policy':
+      if (!APPROVAL_POLICIES.includes(value as ApprovalPolicy)) {
+        throw new Error(`Invalid value for --approval-policy: ${value} (expected ${APPROVAL_POLICIES.join(', ')})`);
+      }
+      parsed.codex = { ...parsed.codex, approvalPolicy: value as ApprovalPolicy };
+      break;
+    case '--sandbox':
+      if (!SANDBOX_MODES.includes(value as SandboxMode)) {
+        throw new Error(`Invalid value for --sandbox: ${value} (expected ${SANDBOX_MODES.join(', ')})`);
+      }
+      parsed.codex = { ...parsed.codex, sandboxMode: value as SandboxMode };
+      break;
+    case '--writable-root':
+      parsed.codex = { ...parsed.codex, writableRoots: [...parsed.codex?.writableRoots ?? [], resolve(value)] };
+      break;
+    case '--backup-dir':
+      parsed.backup = { ...parsed.backup, dir: resolve(value) };
+      break;
+    case '--keep':
+      if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid value for --keep: ${value} (expected a non-negative integer)`);
+      }
+      parsed.keep = Number(value);
+      break;
+  }
+}
+
+function applyPositional(parsed: CliArgs, arg: string): void {
+  if (parsed.command === 'backups' && !parsed.backupsAction && (arg === 'list' || arg === 'prune')) {
+    parsed.backupsAction = arg;
+  } else if (parsed.command === 'restore' && !parsed.backupId && isBackupId(arg)) {
+    parsed.backupId = arg;
+  } else if (!parsed.directory) {
+    parsed.directory = arg;
+  }
+}
+
+function validateArgs(args: string[]): CliArgs {
+  const explicit = COMMANDS.find(command => command === args[0]);
+  const command: Command = explicit ?? 'init';
+  const processedArgs = explicit ? args.slice(1) : args;
+  const parsed: CliArgs = { command, dryRun: false, yes: false, json: false, show: false, directory: undefined, variables: {} };
+  
+  for (let i = 0; i < processedArgs.length; i++) {
+    const arg = processedArgs[i];
+    if (!arg) continue;
+    
+    if (VALUE_FLAGS.includes(arg)) {
+      const value = processedArgs[++i];
+      if (!value || value.startsWith('-')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      applyValueFlag(parsed, arg, value);
+    } else if (arg.startsWith('-')) {
+      if (!BOOLEAN_FLAGS.includes(arg)) {
         throw new Error(`Unknown flag: ${arg}`);
       }
-      if (arg === '--dry-run') dryRun = true;
-    } else if (arg && !directory) {
-      directory = arg;
+      if (arg === '--dry-run') parsed.dryRun = true;
+      if (arg === '--yes' || arg === '-y') parsed.yes = true;
+      if (arg === '--json') parsed.json = true;
+      if (arg === '--show') parsed.show = true;
+      if (arg === '--no-backup') parsed.backup = { ...parsed.backup, enabled: false };
+    } else {
+      applyPositional(parsed, arg);
     }
   }
   
-  return { dryRun, directory };
+  if (parsed.command === 'backups' && parsed.backupsAction === 'prune' && parsed.keep === undefined) {
+    throw new Error('Missing --keep for backups prune');
+  }
+  if (parsed.show && !parsed.dryRun) {
+    throw new Error('--show is only valid with --dry-run');
+  }
+  if (parsed.json && parsed.command !== 'init' && parsed.command !== 'detect') {
+    throw new Error('--json is only valid with init and detect');
+  }
+  if (parsed.keep !== undefined && parsed.backupsAction !== 'prune') {
+    throw new Error('--keep is only valid with backups prune');
+  }
+  
+  return parsed;
 }
 
 function showVersion(): void {
@@ -31,40 +185,314 @@ function showVersion(): void {
 }
 
 
-async function runInit(options: { dryRun?: boolean; directory?: string | undefined } = {}): Promise<number> {
+function shouldPrompt(options: Partial<CliArgs>): boolean {
+  return !options.yes && !options.dryRun && !options.json && Boolean(process.stdin.isTTY) && Boolean(process.stdout.isTTY);
+}
+
+async function confirmDetectedValues(
+  targetDir: string,
+  options: Partial<CliArgs>
+): Promise<ConfigOverrides | undefined> {
+  const fs = await import('node:fs/promises');
+  const targetStat = await fs.stat(targetDir).catch(() => null);
+  if (!targetStat?.isDirectory()) return undefined;
+  
+  const preview = await init(targetDir, { ...options, dryRun: true });
+  if (!preview.success || !preview.settings) return undefined;
+  
+  const configPath = preview.configPath ?? join(targetDir, CONFIG_FILES[0]!);
+  const { overrides, save } = await runWizard(preview.settings, { configPath });
+  
+  if (save) {
+    await saveWizardAnswers(configPath, overrides);
+    console.log(`Saved answers to ${configPath}`);
+  }
+  return overrides;
+}
+
+interface JsonFileEntry {
+  path: string;
+  sha256: string;
+}
+
+interface InitReport {
+  success: boolean;
+  errorCode: ErrorCode | null;
+  message: string;
+  dryRun: boolean;
+  files: {
+    created: JsonFileEntry[];
+    updated: JsonFileEntry[];
+    backedUp: JsonFileEntry[];
+  };
+  backupDir: string | null;
+  context: ProjectContext | null;
+  variables: TemplateVariables | null;
+  rollbackFailures: RollbackFailure[];
+}
+
+function toInitReport(result: InitResult): InitReport {
+  const written = result.files ?? [];
+  const byStatus = (status: WrittenFileStatus): JsonFileEntry[] => written
+    .filter(file => file.status === status)
+    .map(({ path, sha256 }) => ({ path, sha256 }));
+  
+  return {
+    success: result.success,
+    errorCode: result.errorCode ?? null,
+    message: result.message,
+    dryRun: result.dryRun ?? false,
+    files: {
+      created: byStatus('created'),
+      updated: byStatus('updated'),
+      backedUp: Object.entries(result.backedUpFiles ?? {}).map(([path, sha256]) => ({ path, sha256 }))
+    },
+    backupDir: result.backupDir ?? null,
+    context: result.context ?? null,
+    variables: result.variables ?? null,
+    rollbackFailures: result.rollbackFailures ?? []
+  };
+}
+
+async function runInit(options: Partial<CliArgs> = {}): Promise<number> {
   const targetDir = options.directory ? resolve(options.directory) : process.cwd();
   
-  console.log('create-codex sets up your AGENTS.md file following the open standard');
-  console.log('format. Press ^C anytime to quit.');
+  if (!options.json) {
+    console.log('create-codex sets up your AGENTS.md file following the open standard');
+    console.log('format. Press ^C anytime to quit.');
+  }
+  
+  let overrides: ConfigOverrides | undefined;
+  if (shouldPrompt(options)) {
+    try {
+      overrides = await confirmDetectedValues(targetDir, options);
+    } catch (error) {
+      if (!(error instanceof WizardCancelledError)) throw error;
+      console.error(`\n${error.message}`);
+      return 130;
+    }
+  }
   
   if (options.directory) {
     const fs = await import('node:fs/promises');
     try {
       await fs.mkdir(targetDir, { recursive: true });
     } catch (error) {
-      console.error(`Failed to create directory: ${targetDir}`);
+      if (!options.json) {
+        console.error(`Failed to create directory: ${targetDir}`);
+        return 1;
+      }
+      
+      const code = (error as NodeJS.ErrnoException).code;
+      const denied = code === 'EACCES' || code === 'EPERM' || code === 'EROFS';
+      const result: InitResult = {
+        success: false,
+        filesCreated: 0,
+        message: denied
+          ? `NO WRITE PERMISSION: Cannot create ${targetDir}\nAction: Check directory permissions`
+          : `INVALID PATH: Cannot create ${targetDir}\nAction: Ensure the path is not an existing file`,
+        errorCode: denied ? ErrorCode.NO_WRITE_PERMISSION : ErrorCode.INVALID_TARGET_DIRECTORY
+      };
+      console.log(JSON.stringify(toInitReport(result), null, 2));
       return 1;
     }
   }
   
-  const result = await init(targetDir, options);
+  const result = await init(targetDir, { ...options, ...(overrides ? { overrides } : {}) });
+  
+  if (options.json) {
+    console.log(JSON.stringify(toInitReport(result), null, 2));
+    return result.success ? 0 : 1;
+  }
   
   if (!result.success) {
     console.error(result.message);
+    printRollbackFailures(result.rollbackFailures);
     return 1;
   }
   
+  for (const warning of result.context?.warnings ?? []) {
+    console.error(`Warning: ${warning}`);
+  }
   if (!options.dryRun) {
-    console.log('\nDone! AGENTS.md saved in current directory.');
-    const createdFiles = [
-      ' + AGENTS.md'
+    console.log(`\nDone! ${result.message}`);
+    const changedFiles = [
+      ...(result.createdFiles ?? []).map(file => ` + ${file}`),
+      ...(result.updatedFiles ?? []).map(file => ` ~ ${file}`)
     ];
     
-    console.log(createdFiles.join('\n'));
+    console.log(changedFiles.join('\n'));
+    if (result.backupDir) {
+      console.log(`\nPrevious versions saved to ${result.backupDir}`);
+    }
     console.log('\nTo get started:');
     console.log('  Open your project in your favorite AI coding agent!');
   } else {
+    printPreview(result, options.show ?? false);
     console.log(result.message);
+    printSettings(result.settings ?? [], result.configPath);
+  }
+  return 0;
+}
+
+function printPreview(result: InitResult, show: boolean): void {
+  const symbols: Record<PreviewStatus, string> = { new: '+', modified: '~', unchanged: '=' };
+  
+  for (const file of result.preview ?? []) {
+    console.log(`\n${symbols[file.status]} ${file.path} (${file.status})`);
+    if (show) {
+      process.stdout.write(file.content.endsWith('\n') ? file.content : `${file.content}\n`);
+    } else if (file.diff) {
+      process.stdout.write(file.diff);
+    }
+  }
+  
+  const backups = Object.keys(result.backedUpFiles ?? {});
+  if (backups.length > 0) {
+    console.log(`\nWould back up ${backups.length} file(s) before writing:`);
+    for (const path of backups) {
+      console.log(`  ${path}`);
+    }
+  }
+  console.log('');
+}
+
+function printRollbackFailures(failures: RollbackFailure[] = []): void {
+  if (failures.length === 0) return;
+  
+  console.error('\nRollback could not undo every change:');
+  for (const failure of failures) {
+    const recovery = failure.backup ? ` (previous content kept in ${failure.backup})` : '';
+    console.error(`  ✗ ${failure.path}: ${failure.error}${recovery}`);
+  }
+}
+
+function printSettings(settings: ResolvedSetting[], configPath?: string): void {
+  if (settings.length === 0) return;
+  
+  const nameWidth = Math.max(...settings.map(setting => setting.name.length));
+  const valueWidth = Math.min(40, Math.max(...settings.map(setting => setting.value.length)));
+  
+  console.log(`\nConfiguration${configPath ? ` (${configPath})` : ''}:`);
+  for (const { name, value, source } of settings) {
+    console.log(`  ${name.padEnd(nameWidth)}  ${value.padEnd(valueWidth)}  [${source}]`);
+  }
+}
+
+async function runCheck(options: Partial<CliArgs> = {}): Promise<number> {
+  const targetDir = options.directory ? resolve(options.directory) : process.cwd();
+  const result = await check(targetDir, options);
+  
+  if (!result.success) {
+    console.error(result.message);
+    return 2;
+  }
+  
+  for (const file of result.files) {
+    if (file.diff) process.stdout.write(file.diff);
+  }
+  
+  console.log(result.message);
+  return result.inSync ? 0 : 1;
+}
+
+function printDetectEntries(title: string, entries: DetectEntry[]): void {
+  if (entries.length === 0) return;
+  
+  const summarize = (value: string) => /[\r\n]/.test(value) ? `(${value.split(/\r?\n/).length} lines)` : value;
+  const nameWidth = Math.max(...entries.map(entry => entry.name.length));
+  const valueWidth = Math.min(40, Math.max(...entries.map(entry => summarize(entry.value).length)));
+  const truncate = (value: string) => {
+    const shown = summarize(value);
+    return shown.length > valueWidth ? `${shown.slice(0, valueWidth - 1)}…` : shown;
+  };
+  
+  console.log(`\n${title}:`);
+  for (const { name, value, origin, source, candidates } of entries) {
+    const where = origin === 'detected' ? source : `${origin}: ${source}`;
+    console.log(`  ${name.padEnd(nameWidth)}  ${truncate(value).padEnd(valueWidth)}  ${where}`);
+    for (const candidate of candidates) {
+      console.log(`  ${''.padEnd(nameWidth)}  ✗ ${truncate(candidate.value)} (${candidate.source})`);
+    }
+  }
+}
+
+async function runDetect(options: Partial<CliArgs> = {}): Promise<number> {
+  const targetDir = options.directory ? resolve(options.directory) : process.cwd();
+  const result = await detect(targetDir, options);
+  
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return result.success ? 0 : 1;
+  }
+  if (!result.success) {
+    console.error(result.message);
+    return 1;
+  }
+  
+  printDetectEntries(`Project context${result.configPath ? ` (${result.configPath})` : ''}`, result.fields);
+  printDetectEntries('Template variables', result.variables);
+  for (const warning of result.context?.warnings ?? []) {
+    console.error(`\nWarning: ${warning}`);
+  }
+  console.log(`\n${result.message}`);
+  return 0;
+}
+
+function toBackupCommandOptions(options: Partial<CliArgs>): BackupCommandOptions {
+  return {
+    backupDir: options.backup?.dir,
+    ...(options.backup?.enabled === false ? { noBackup: true } : {})
+  };
+}
+
+function printBackups(result: BackupsResult): void {
+  if (result.backups.length === 0) return;
+  
+  console.log('');
+  for (const backup of result.backups) {
+    const integrity = backup.verifiable ? 'sha256' : 'unverified';
+    console.log(`  ${backup.id}  ${String(backup.files.length).padStart(3)} file(s)  [${integrity}]  ${backup.path}`);
+  }
+}
+
+async function runBackups(options: Partial<CliArgs> = {}): Promise<number> {
+  const targetDir = options.directory ? resolve(options.directory) : process.cwd();
+  const commandOptions = toBackupCommandOptions(options);
+  
+  const result = options.backupsAction === 'prune'
+    ? await pruneBackups(targetDir, { ...commandOptions, keep: options.keep ?? 0 })
+    : await listBackups(targetDir, commandOptions);
+  
+  if (!result.success) {
+    console.error(result.message);
+    return 1;
+  }
+  
+  for (const id of result.removed ?? []) {
+    console.log(`  - ${id}`);
+  }
+  printBackups(result);
+  console.log(`\n${result.message}`);
+  return 0;
+}
+
+async function runRestore(options: Partial<CliArgs> = {}): Promise<number> {
+  const targetDir = options.directory ? resolve(options.directory) : process.cwd();
+  const result = await restore(targetDir, { ...toBackupCommandOptions(options), id: options.backupId });
+  
+  if (!result.success) {
+    console.error(result.message);
+    printRollbackFailures(result.rollbackFailures);
+    return 1;
+  }
+  
+  for (const file of result.restored ?? []) {
+    console.log(`  ↺ ${file}`);
+  }
+  console.log(`\n${result.message}`);
+  if (result.safetyBackupDir) {
+    console.log(`Previous versions saved to ${result.safetyBackupDir}`);
   }
   return 0;
 }
@@ -74,23 +502,98 @@ function showHelp(): void {
   console.log(``);
   console.log(`USAGE:`);
   console.log(`  create-codex [directory] [OPTIONS]`);
+  console.log(`  create-codex check [directory] [OPTIONS]`);
+  console.log(`  create-codex detect [directory] [OPTIONS]`);
+  console.log(`  create-codex backups [list|prune] [directory] [OPTIONS]`);
+  console.log(`  create-codex restore [timestamp] [directory] [OPTIONS]`);
   console.log(`  cld [directory] [OPTIONS]`);
   console.log(``);
   console.log(`DESCRIPTION:`);
   console.log(`  Sets up AGENTS.md file following the open standard format.`);
   console.log(``);
+  console.log(`COMMANDS:`);
+  console.log(`  init           Generate or update AGENTS.md (default)`);
+  console.log(`  check          Compare AGENTS.md with a fresh render and print a diff.`);
+  console.log(`                 Exits 0 when up to date, 1 on drift, 2 on error.`);
+  console.log(`                 Set SOURCE_DATE_EPOCH to compare TIMESTAMP exactly.`);
+  console.log(`  detect         Print the detected context and every template variable with`);
+  console.log(`                 the file, lockfile, dependency or git command it came from,`);
+  console.log(`                 and the candidates that lost (✗). Add --json for JSON.`);
+  console.log(`  backups list   List backups of this project, newest first (default)`);
+  console.log(`  backups prune  Delete all but the newest --keep N backups`);
+  console.log(`  restore        Restore the newest backup, or the one named by [timestamp].`);
+  console.log(`                 Backed-up files are checked against their SHA-256 hashes and`);
+  console.log(`                 the files they replace are backed up first.`);
+  console.log(``);
   console.log(`ARGUMENTS:`);
   console.log(`  directory      Target directory (defaults to current directory)`);
   console.log(``);
   console.log(`OPTIONS:`);
   console.log(`  --help, -h     Show this help message`);
   console.log(`  --version, -v  Show version number`);
-  console.log(`  --dry-run      Show what would be done without making changes`);
+  console.log(`  --dry-run      Render every file in memory and show a diff against disk`);
+  console.log(`                 (new, modified or unchanged) plus the backups a run would make`);
+  console.log(`  --show         With --dry-run, print the full rendered content instead of diffs`);
+  console.log(`  --json         Print one JSON document with the result, changed files and`);
+  console.log(`                 their SHA-256 hashes, backups, detected context and variables.`);
+  console.log(`                 Implies --yes. With detect, prints the explanation as JSON.`);
+  console.log(`  --yes, -y      Accept detected values without prompting. Prompts are also`);
+  console.log(`                 skipped when stdin or stdout is not a terminal.`);
+  console.log(`  --merge <mode> How to treat existing files without create-codex markers:`);
+  console.log(`                 append (keep content, add managed block) or adopt (replace)`);
+  console.log(`                 Overrides "merge" in the config file.`);
+  console.log(`  --template <dir>`);
+  console.log(`                 Use templates from <dir> on top of the bundled ones.`);
+  console.log(`                 Files ending in .tmpl drop the suffix (AGENTS.md.tmpl -> AGENTS.md).`);
+  console.log(`                 Templates in .codex/templates/ are picked up automatically.`);
+  console.log(`  --package-manager <pm>`);
+  console.log(`                 Use <pm> instead of the detected package manager, e.g. pnpm.`);
+  console.log(`                 Overrides "packageManager" in the config file.`);
+  console.log(`  --var KEY=VALUE`);
+  console.log(`                 Set a custom template variable (repeatable). Values given here`);
+  console.log(`                 override defaults from create-codex.config.json.`);
+  console.log(`  --agents <list>`);
+  console.log(`                 Also generate instruction files for other coding agents,`);
+  console.log(`                 e.g. --agents claude,cursor:copy. Each entry is <agent> or`);
+  console.log(`                 <agent>:copy|pointer; pointers reference AGENTS.md instead of`);
+  console.log(`                 repeating it. Overrides "agents" in the config file.`);
+  for (const name of AGENT_NAMES) {
+    const mode = name === 'codex' ? '' : ` [${AGENTS[name].defaultMode}]`;
+    console.log(`                   ${name.padEnd(9)}${AGENTS[name].description}${mode}`);
+  }
+  console.log(`  --approval-policy <policy>`);
+  console.log(`                 approval_policy in .codex/config.toml: untrusted, on-failure,`);
+  console.log(`                 on-request (default) or never`);
+  console.log(`  --sandbox <mode>`);
+  console.log(`                 sandbox_mode in .codex/config.toml: read-only,`);
+  console.log(`                 workspace-write (default) or danger-full-access`);
+  console.log(`  --writable-root <dir>`);
+  console.log(`                 Extra writable directory for workspace-write (repeatable)`);
+  console.log(`  --backup-dir <dir>`);
+  console.log(`                 Create and look up backups in <dir> instead of the project.`);
+  console.log(`                 Overrides "backup.dir" in the config file.`);
+  console.log(`  --no-backup    Change files without backing them up first`);
+  console.log(`  --keep <n>     Number of backups kept by backups prune`);
+  console.log(``);
+  console.log(`CONFIGURATION:`);
+  console.log(`  create-codex.config.json or .create-codexrc is looked up from the target`);
+  console.log(`  directory upwards (stopping at the repository root). It can override the`);
+  console.log(`  detected packageManager, runtime, framework and commands, and set`);
+  console.log(`  templateDir, outputs, merge, backup and variables. Flags win over the`);
+  console.log(`  config file; the config file wins over detection. Run --dry-run to see`);
+  console.log(`  the merged result.`);
   console.log(``);
   console.log(`EXAMPLES:`);
   console.log(`  create-codex              # Setup in current directory`);
   console.log(`  create-codex my-project   # Setup in ./my-project directory`);
   console.log(`  create-codex --dry-run    # Preview changes without applying`);
+  console.log(`  create-codex check        # Fail CI when AGENTS.md is out of date`);
+  console.log(`  create-codex detect       # Explain why each value was detected`);
+  console.log(`  create-codex --package-manager bun`);
+  console.log(`  create-codex --var SLACK_CHANNEL=#team-web`);
+  console.log(`  create-codex --agents claude,copilot,cursor`);
+  console.log(`  create-codex backups prune --keep 3`);
+  console.log(`  create-codex restore 2025-01-31T12-00-00-000Z`);
 }
 
 function checkNodeVersion(): void {
@@ -139,8 +642,15 @@ async function main(): Promise<void> {
     process.exit(0);
   }
   
-  const { dryRun, directory } = validateArgs(rawArgs);
-  const exitCode = await runInit({ dryRun, directory });
+  const args = validateArgs(rawArgs);
+  const runners: Record<Command, (options: CliArgs) => Promise<number>> = {
+    init: runInit,
+    check: runCheck,
+    detect: runDetect,
+    backups: runBackups,
+    restore: runRestore
+  };
+  const exitCode = await runners[args.command](args);
   process.exit(exitCode);
 }
 
@@ -0,0 +1,93 @@
+import type { TemplateVariables } from './types.js';
+
+export type ApprovalPolicy = 'untrusted' | 'on-failure' | 'on-request' | 'never';
+export type SandboxMode = 'read-only' | 'workspace-write' | 'danger-full-access';
+export type ShellEnvironmentInherit = 'all' | 'core' | 'none';
+
+export interface ShellEnvironmentSettings {
+  inherit?: ShellEnvironmentInherit;
+  exclude?: string[];
+  set?: Record<string, string>;
+}
+
+export interface CodexSettings {
+  approvalPolicy?: ApprovalPolicy;
+  sandboxMode?: SandboxMode;
+  writableRoots?: string[];
+  networkAccess?: boolean;
+  shellEnvironment?: ShellEnvironmentSettings;
+}
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ['untrusted', 'on-failure', 'on-request', 'never'];
+export const SANDBOX_MODES: SandboxMode[] = ['read-only', 'workspace-write', 'danger-full-access'];
+
+export const CODEX_CONFIG_HEADER = '# Codex Configuration';
+
+const TOML_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\b': '\\b',
+  '\t': '\\t',
+  '\n': '\\n',
+  '\f': '\\f',
+  '\r': '\\r'
+};
+
+export function tomlString(value: string): string {
+  const escaped = value.replace(/["\\\x00-\x1F\x7F]/g, char =>
+    TOML_ESCAPES[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+  return `"${escaped}"`;
+}
+
+export function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key);
+}
+
+export function tomlArray(values: string[]): string {
+  if (values.length === 0) return '[]';
+  return `[\n${values.map(value => `  ${tomlString(value)},`).join('\n')}\n]`;
+}
+
+function tomlInlineTable(entries: Record<string, string>): string {
+  const pairs = Object.entries(entries).map(([key, value]) => `${tomlKey(key)} = ${tomlString(value)}`);
+  return pairs.length === 0 ? '{}' : `{ ${pairs.join(', ')} }`;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map(value => value.trim()).filter(Boolean))];
+}
+
+export function renderCodexConfig(variables: TemplateVariables, settings: CodexSettings = {}): string {
+  const sandboxMode = settings.sandboxMode ?? 'workspace-write';
+  const shell = settings.shellEnvironment ?? {};
+  
+  const projectName = variables.PROJECT_NAME.replace(/[\x00-\x1F\x7F]/g, ' ');
+  
+  const lines = [
+    CODEX_CONFIG_HEADER,
+    `# Generated by create-codex for ${projectName}`,
+    '',
+    `approval_policy = ${tomlString(settings.approvalPolicy ?? 'on-request')}`,
+    `sandbox_mode = ${tomlString(sandboxMode)}`,
+    ''
+  ];
+  
+  if (sandboxMode === 'workspace-write') {
+    lines.push(
+      '[sandbox_workspace_write]',
+      `writable_roots = ${tomlArray(unique(settings.writableRoots ?? []))}`,
+      `network_access = ${settings.networkAccess ?? false}`,
+      ''
+    );
+  }
+  
+  lines.push(
+    '[shell_environment_policy]',
+    `inherit = ${tomlString(shell.inherit ?? 'core')}`,
+    `exclude = ${tomlArray(unique(shell.exclude ?? []))}`,
+    `set = ${tomlInlineTable(shell.set ?? {})}`
+  );
+  
+  return lines.join('\n') + '\n';
+}
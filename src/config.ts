@@ -0,0 +1,186 @@
+import { readFile } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
+import { join, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PackageManager, Runtime, ProjectContext, TemplateVariables } from './types.js';
+import type { MergeMode } from './merge.js';
+import type { CustomVariableDefinition } from './variables.js';
+import type { CodexSettings } from './codex-config.js';
+import { validateSchema, type JsonSchema } from './schema.js';
+import { exists } from './utils.js';
+
+export const CONFIG_FILES = ['create-codex.config.json', '.create-codexrc'];
+
+export interface ConfigCommands {
+  install?: string;
+  dev?: string;
+  build?: string;
+  test?: string;
+  lint?: string;
+  format?: string;
+  typecheck?: string;
+}
+
+export interface BackupConfig {
+  enabled?: boolean;
+  dir?: string;
+}
+
+export interface CreateCodexConfig {
+  projectName?: string;
+  purpose?: string;
+  packageManager?: PackageManager;
+  runtime?: Runtime;
+  framework?: string;
+  commands?: ConfigCommands;
+  templateDir?: string;
+  outputs?: string[];
+  agents?: string[];
+  codex?: CodexSettings;
+  merge?: MergeMode;
+  backup?: BackupConfig;
+  variables?: Record<string, CustomVariableDefinition>;
+}
+
+export type ConfigOverrides = Pick<
+  CreateCodexConfig,
+  'projectName' | 'purpose' | 'packageManager' | 'runtime' | 'framework' | 'commands'
+>;
+
+export interface LoadedConfig {
+  path?: string;
+  config: CreateCodexConfig;
+}
+
+let cachedSchema: JsonSchema | undefined;
+
+export function getSchemaPath(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), '..', 'schema', 'create-codex.schema.json');
+}
+
+export function getSchemaEnum(property: string): string[] {
+  const values = loadSchema().properties?.[property]?.enum ?? [];
+  return values.filter((value): value is string => typeof value === 'string');
+}
+
+export function checkConfigValue(key: string, value: unknown): string | undefined {
+  const [section, field] = key.split('.');
+  const candidate = field ? { [section!]: { [field]: value } } : { [key]: value };
+  return validateSchema(candidate, loadSchema())[0]?.message;
+}
+
+export function mergeOverrides(config: CreateCodexConfig, overrides: ConfigOverrides = {}): CreateCodexConfig {
+  const commands = { ...config.commands, ...overrides.commands };
+  return {
+    ...config,
+    ...overrides,
+    ...(Object.keys(commands).length > 0 ? { commands } : {})
+  };
+}
+
+function loadSchema(): JsonSchema {
+  cachedSchema ??= JSON.parse(readFileSync(getSchemaPath(), 'utf-8')) as JsonSchema;
+  return cachedSchema;
+}
+
+function invalidConfig(path: string, problems: string[]): Error {
+  return new Error(
+    `INVALID CONFIG: ${path}\n` +
+    problems.map(problem => `  ${problem}\n`).join('') +
+    `Action: Fix the configuration file and retry`
+  );
+}
+
+export async function findConfigFile(startDir: string): Promise<string | undefined> {
+  let dir = resolve(startDir);
+  
+  while (true) {
+    for (const name of CONFIG_FILES) {
+      const candidate = join(dir, name);
+      if (await exists(candidate)) return candidate;
+    }
+    
+    const parent = dirname(dir);
+    if (parent === dir || await exists(join(dir, '.git'))) return undefined;
+    dir = parent;
+  }
+}
+
+function normalizeConfig(raw: CreateCodexConfig & Record<string, unknown>, configDir: string): CreateCodexConfig {
+  const { $schema: _schema, ...config } = raw;
+  
+  if (config.templateDir) {
+    config.templateDir = resolve(configDir, config.templateDir);
+  }
+  if (config.backup?.dir) {
+    config.backup = { ...config.backup, dir: resolve(configDir, config.backup.dir) };
+  }
+  if (config.codex?.writableRoots) {
+    config.codex = { ...config.codex, writableRoots: config.codex.writableRoots.map(root => resolve(configDir, root)) };
+  }
+  if (config.variables) {
+    config.variables = Object.fromEntries(
+      Object.entries(config.variables as Record<string, unknown>).map(([name, value]) => [
+        name,
+        typeof value === 'object' ? value as CustomVariableDefinition : { default: value as string | boolean }
+      ])
+    );
+  }
+  
+  return config;
+}
+
+export function parseConfig(content: string, path: string): CreateCodexConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw invalidConfig(path, [`(root): invalid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  
+  const errors = validateSchema(raw, loadSchema());
+  if (errors.length > 0) {
+    throw invalidConfig(path, errors.map(error => `${error.path || '(root)'}: ${error.message}`));
+  }
+  
+  return normalizeConfig(raw as CreateCodexConfig & Record<string, unknown>, dirname(path));
+}
+
+export async function loadConfig(projectPath: string): Promise<LoadedConfig> {
+  const path = await findConfigFile(projectPath);
+  if (!path) return { config: {} };
+  
+  const content = await readFile(path, 'utf-8');
+  return { path, config: parseConfig(content, path) };
+}
+
+export const COMMAND_VARIABLES = {
+  install: 'INSTALL_COMMAND',
+  dev: 'DEV_COMMAND',
+  build: 'BUILD_COMMAND',
+  test: 'TEST_COMMAND',
+  lint: 'LINT_COMMAND',
+  format: 'FORMAT_COMMAND',
+  typecheck: 'TYPECHECK_COMMAND'
+} as const satisfies Record<keyof ConfigCommands, string>;
+
+export function applyConfigToContext(detected: ProjectContext, config: CreateCodexConfig): ProjectContext {
+  const { yarnVariant: _yarnVariant, ...withoutVariant } = detected;
+  const context = config.packageManager && config.packageManager !== 'yarn' ? withoutVariant : detected;
+  return {
+    ...context,
+    ...(config.projectName ? { projectName: config.projectName } : {}),
+    ...(config.packageManager ? { packageManager: config.packageManager } : {}),
+    ...(config.runtime ? { runtime: config.runtime } : {}),
+    ...(config.framework ? { framework: config.framework } : {})
+  };
+}
+
+export function getVariableOverrides(config: CreateCodexConfig): Partial<TemplateVariables> {
+  const overrides: Partial<TemplateVariables> = config.purpose ? { PURPOSE: config.purpose } : {};
+  for (const [key, variable] of Object.entries(COMMAND_VARIABLES)) {
+    const command = config.commands?.[key as keyof ConfigCommands];
+    if (command) overrides[variable] = command;
+  }
+  return overrides;
+}
@@ -0,0 +1,42 @@
+import { join } from 'node:path';
+import { exists } from './utils.js';
+
+export type NativeBuildSystem = 'cmake' | 'meson' | 'make';
+
+export interface NativeCommands {
+  install?: string;
+  build: string;
+  test?: string;
+}
+
+const BUILD_SYSTEMS: Array<{ files: string[]; system: NativeBuildSystem; commands: NativeCommands }> = [
+  {
+    files: ['CMakeLists.txt'],
+    system: 'cmake',
+    commands: { install: 'cmake -S . -B build', build: 'cmake --build build', test: 'ctest --test-dir build' }
+  },
+  {
+    files: ['meson.build'],
+    system: 'meson',
+    commands: { install: 'meson setup builddir', build: 'meson compile -C builddir', test: 'meson test -C builddir' }
+  },
+  {
+    files: ['GNUmakefile', 'makefile', 'Makefile'],
+    system: 'make',
+    commands: { build: 'make' }
+  }
+];
+
+export async function detectNativeBuildSystem(projectPath: string): Promise<NativeBuildSystem | undefined> {
+  for (const { files, system } of BUILD_SYSTEMS) {
+    for (const file of files) {
+      if (await exists(join(projectPath, file))) return system;
+    }
+  }
+  return undefined;
+}
+
+export async function getNativeCommands(projectPath: string): Promise<NativeCommands | undefined> {
+  const system = await detectNativeBuildSystem(projectPath);
+  return BUILD_SYSTEMS.find(candidate => candidate.system === system)?.commands;
+}
@@ -0,0 +1,184 @@
+import { promises as fs } from 'node:fs';
+import { basename } from 'node:path';
+import { prepareRun, InitError, type InitOptions, type ResolvedSetting, type SettingSource } from './init.js';
+import { explainFramework, explainPackageManager, explainRuntime } from './utils.js';
+import { COMMAND_VARIABLES } from './config.js';
+import {
+  ErrorCode,
+  type Detection,
+  type Evidence,
+  type ProjectContext,
+  type StackInfo,
+  type TemplateValue
+} from './types.js';
+import { logger, LogLevel, configureLogger } from './logger.js';
+
+export type DetectOptions = Pick<InitOptions, 'templateDir' | 'packageManager' | 'variables'>;
+
+export interface DetectEntry {
+  name: string;
+  value: string;
+  origin: SettingSource;
+  source: string;
+  candidates: Evidence[];
+}
+
+export interface DetectResult {
+  success: boolean;
+  message: string;
+  errorCode?: ErrorCode;
+  configPath?: string;
+  context?: ProjectContext;
+  fields: DetectEntry[];
+  variables: DetectEntry[];
+}
+
+const VARIABLE_SETTINGS: Record<string, string> = {
+  PROJECT_NAME: 'projectName',
+  PURPOSE: 'purpose',
+  PACKAGE_MANAGER: 'packageManager',
+  HAS_PACKAGE_MANAGER: 'packageManager',
+  RUNTIME: 'runtime',
+  FRAMEWORK: 'framework',
+  HAS_FRAMEWORK: 'framework',
+  ...Object.fromEntries(Object.entries(COMMAND_VARIABLES).map(([key, variable]) => [variable, `commands.${key}`]))
+};
+
+function formatDetectValue(value: TemplateValue | undefined): string {
+  if (Array.isArray(value)) {
+    return value.map(item => typeof item === 'string' ? item : Object.values(item)[0] ?? '').join(', ');
+  }
+  return String(value ?? '');
+}
+
+function describeStacks(stacks: StackInfo[]): string {
+  return stacks.map(stack => `${stack.runtime} (${stack.path})`).join(', ');
+}
+
+function preferStack(
+  detection: Detection,
+  stack: StackInfo | undefined,
+  field: 'packageManager' | 'runtime' | 'framework'
+): Detection {
+  if (!stack) return detection;
+  
+  const ranked = [{ value: detection.value, source: detection.source }, ...detection.candidates];
+  const winner = ranked.find(candidate => candidate.value === stack[field]) ??
+    { value: stack[field], source: `${stack.runtime} stack in ./` };
+  return { ...winner, candidates: ranked.filter(candidate => candidate !== winner) };
+}
+
+function describeOrigin(source: SettingSource, configPath?: string): string {
+  switch (source) {
+    case 'cli': return 'command-line flag';
+    case 'prompt': return 'wizard answer';
+    case 'config': return configPath ?? 'config file';
+    default: return source;
+  }
+}
+
+function explainSetting(
+  name: string,
+  value: string,
+  setting: ResolvedSetting | undefined,
+  detection: Detection,
+  configPath?: string
+): DetectEntry {
+  if (!setting || setting.source === 'detected') {
+    return { name, value, origin: 'detected', source: detection.source, candidates: detection.candidates };
+  }
+  
+  const losers = [{ value: detection.value, source: detection.source }, ...detection.candidates]
+    .filter(candidate => candidate.value !== '' && candidate.value !== value);
+  return { name, value, origin: setting.source, source: describeOrigin(setting.source, configPath), candidates: losers };
+}
+
+async function validateDetectTarget(projectPath: string): Promise<void> {
+  const targetStat = await fs.stat(projectPath).catch(() => null);
+  if (!targetStat?.isDirectory()) {
+    throw new InitError(
+      `INVALID PATH: Not a directory\n` +
+      `Action: Ensure path exists and is a directory`,
+      ErrorCode.INVALID_TARGET_DIRECTORY
+    );
+  }
+}
+
+export async function detect(
+  projectPath: string,
+  options: DetectOptions = {}
+): Promise<DetectResult> {
+  configureLogger({
+    level: LogLevel.INFO,
+    silent: true
+  });
+  
+  try {
+    await validateDetectTarget(projectPath);
+    
+    const run = await prepareRun(projectPath, options);
+    const { context, configPath } = run;
+    const settings = new Map(run.settings.map(setting => [setting.name, setting]));
+    const primary = context.stacks?.find(stack => stack.path === '.');
+    const [packageManager, runtime, framework] = await Promise.all([
+      explainPackageManager(projectPath).then(detection => preferStack(detection, primary, 'packageManager')),
+      explainRuntime(projectPath).then(detection => preferStack(detection, primary, 'runtime')),
+      explainFramework(projectPath).then(detection => preferStack(detection, primary, 'framework'))
+    ]);
+    const fact = (value: string, source: string): Detection => ({ value, source, candidates: [] });
+    
+    const fields = [
+      explainSetting('projectName', context.projectName, settings.get('projectName'),
+        fact(basename(projectPath), 'target directory name'), configPath),
+      explainSetting('packageManager', context.packageManager, settings.get('packageManager'), packageManager, configPath),
+      ...(context.yarnVariant ? [explainSetting('yarnVariant', context.yarnVariant, undefined,
+        fact(context.yarnVariant, 'packageManager version, .yarnrc.yml or yarn.lock format'))] : []),
+      explainSetting('runtime', context.runtime, settings.get('runtime'), runtime, configPath),
+      explainSetting('framework', context.framework, settings.get('framework'), framework, configPath),
+      explainSetting('hasGit', String(context.hasGit), undefined, fact(String(context.hasGit), '.git directory')),
+      explainSetting('hasCodexDir', String(context.hasCodexDir), undefined,
+        fact(String(context.hasCodexDir), '.codex directory')),
+      ...(context.gitRemoteUrl ? [explainSetting('gitRemoteUrl', context.gitRemoteUrl, undefined,
+        fact(context.gitRemoteUrl, 'git config --get remote.origin.url'))] : []),
+      ...(context.stacks ? [explainSetting('stacks', describeStacks(context.stacks), undefined,
+        fact(describeStacks(context.stacks), 'manifests in the root and top-level directories'))] : []),
+      ...(context.workspace ? [explainSetting('workspace', context.workspace.tools.join(', '), undefined,
+        fact(context.workspace.tools.join(', '), `${context.workspace.members.length} workspace members`))] : [])
+    ];
+    
+    const detected = run.detectedVariables;
+    const variables = Object.entries(run.templateVariables)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => explainSetting(
+        name,
+        formatDetectValue(value),
+        settings.get(VARIABLE_SETTINGS[name] ?? `variables.${name}`),
+        fact(formatDetectValue(detected.variables[name]), detected.sources[name] ?? 'default'),
+        configPath
+      ));
+    
+    return {
+      success: true,
+      message: `Detected ${context.runtime} project (framework: ${context.framework}, ` +
+        `package manager: ${context.packageManager})`,
+      ...(configPath ? { configPath } : {}),
+      context,
+      fields,
+      variables
+    };
+  
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof InitError ? error.code : ErrorCode.UNKNOWN_ERROR;
+    
+    logger.error('Detect failed', { error: errorMessage, code: errorCode });
+    
+    return {
+      success: false,
+      message: errorMessage,
+      errorCode,
+      fields: [],
+      variables: []
+    };
+  }
+}
@@ -0,0 +1,121 @@
+export interface DiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  context?: number;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+const MAX_LCS_CELLS = 4_000_000;
+const NO_NEWLINE = '\n\\ No newline at end of file';
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ type: '-' as const, line })),
+      ...b.map(line => ({ type: '+' as const, line }))
+    ];
+  }
+  
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1]! + 1
+        : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+    }
+  }
+  
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++]! });
+      j++;
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      ops.push({ type: '-', line: a[i++]! });
+    } else {
+      ops.push({ type: '+', line: b[j++]! });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++]! });
+  while (j < b.length) ops.push({ type: '+', line: b[j++]! });
+  return ops;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  
+  return [
+    ...a.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(line => ({ type: ' ' as const, line }))
+  ];
+}
+
+function formatRange(start: number, count: number): string {
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+function buildHunks(ops: DiffOp[], context: number): string[] {
+  const changes = ops.flatMap((op, index) => op.type === ' ' ? [] : [index]);
+  const hunks: string[] = [];
+  let cursor = 0;
+  
+  while (cursor < changes.length) {
+    let last = cursor;
+    while (last + 1 < changes.length && changes[last + 1]! - changes[last]! <= context * 2 + 1) last++;
+    
+    const from = Math.max(0, changes[cursor]! - context);
+    const to = Math.min(ops.length, changes[last]! + context + 1);
+    const before = ops.slice(0, from);
+    const slice = ops.slice(from, to);
+    
+    const oldStart = before.filter(op => op.type !== '+').length;
+    const newStart = before.filter(op => op.type !== '-').length;
+    const oldCount = slice.filter(op => op.type !== '+').length;
+    const newCount = slice.filter(op => op.type !== '-').length;
+    
+    hunks.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    hunks.push(...slice.map(op => `${op.type}${op.line}`));
+    cursor = last + 1;
+  }
+  
+  return hunks;
+}
+
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: DiffOptions = {}
+): string {
+  if (oldText === newText) return '';
+  
+  const { fromFile = 'a', toFile = 'b', context = 3 } = options;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks = buildHunks(ops, context);
+  
+  return [`--- ${fromFile}`, `+++ ${toFile}`, ...hunks].join('\n') + '\n';
+}
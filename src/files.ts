@@ -1,14 +1,79 @@
 import { type TemplateVariables } from './types.js';
 import { promises as fs, createReadStream } from 'node:fs';
-import { join, dirname, resolve } from 'node:path';
+import { join, dirname, resolve, sep } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createHash } from 'node:crypto';
 import { pipeline } from 'node:stream/promises';
 import { exists } from './utils.js';
 import { TransactionLog, withRetry } from './atomic.js';
-import { renderTemplate, validateTemplateVariables } from './template.js';
+import { renderTemplate, validateTemplateVariables, type RenderOptions } from './template.js';
+import { wrapManagedContent, mergeManagedContent, type MergeMode } from './merge.js';
+import type { VariableRegistry } from './variables.js';
+import { renderCompanionFiles, type AgentSelection, type CompanionFile } from './agents.js';
+import { renderCodexConfig, type CodexSettings } from './codex-config.js';
 import { logger } from './logger.js';
 
+export interface CopyOptions {
+  mergeMode?: MergeMode;
+  subdirectory?: string;
+  templateDir?: string | undefined;
+  registry?: VariableRegistry | undefined;
+  outputs?: string[] | undefined;
+  backup?: BackupOptions | undefined;
+  transaction?: TransactionLog | undefined;
+  agents?: AgentSelection[] | undefined;
+  codex?: CodexSettings | undefined;
+}
+
+export interface BackupOptions {
+  enabled?: boolean;
+  dir?: string;
+}
+
+export interface TemplateFile {
+  output: string;
+  source: string;
+  generate?: (variables: TemplateVariables, options: CopyOptions) => string;
+}
+
+export interface PlannedFile {
+  path: string;
+  content: string;
+  existing?: string;
+}
+
+export type WrittenFileStatus = 'created' | 'updated';
+
+export interface WrittenFile {
+  path: string;
+  status: WrittenFileStatus;
+  sha256: string;
+}
+
+export interface CopyResult {
+  filesProcessed: number;
+  backupDir?: string | undefined;
+  files: WrittenFile[];
+}
+
+export interface BackupManifest {
+  version: 1;
+  project: string;
+  createdAt: string;
+  files: Record<string, string>;
+}
+
+export const BACKUP_PREFIX = '.create-codex-backup-';
+export const BACKUP_MANIFEST = '.create-codex-manifest.json';
+
+const INSTRUCTIONS_FILE = 'AGENTS.md';
+const ADDITIONAL_FILES = [INSTRUCTIONS_FILE];
+const MEMBER_FILES = ['AGENTS.md'];
+const CODEX_DIR = '.codex';
+const CODEX_CONFIG = join(CODEX_DIR, 'config.toml');
+const TEMPLATE_SUFFIX = '.tmpl';
+const PARTIALS_DIR = 'partials';
+
 async function validatePathSecurity(targetPath: string, projectPath: string): Promise<void> {
   const resolvedTarget = resolve(targetPath);
   const resolvedProject = resolve(projectPath);
@@ -23,14 +88,14 @@ async function validatePathSecurity(targetPath: string, projectPath: string): Pr
   }
 }
 
-async function hashFile(path: string): Promise<string> {
+export async function hashFile(path: string): Promise<string> {
   const hash = createHash('sha256');
   const stream = createReadStream(path);
   await pipeline(stream, hash);
   return hash.digest('hex');
 }
 
-async function verifyBackup(originalPath: string, backupPath: string): Promise<void> {
+export async function verifyBackup(originalPath: string, backupPath: string): Promise<void> {
   const stats = await fs.stat(originalPath);
   
   if (stats.isDirectory()) {
@@ -65,97 +130,380 @@ function getSourceDir(): string {
   return join(dirname(fileURLToPath(import.meta.url)), '..', 'skel');
 }
 
-async function createBackupDir(projectPath: string): Promise<string> {
+export async function createBackupDir(
+  projectPath: string,
+  backup: BackupOptions = {},
+  tx?: TransactionLog
+): Promise<string> {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const backupDir = join(projectPath, `.create-codex-backup-${timestamp}`);
+  const backupDir = join(backup.dir ?? projectPath, `${BACKUP_PREFIX}${timestamp}`);
   
-  await withRetry(
-    async () => await fs.mkdir(backupDir, { recursive: true }),
-    'Creating backup directory'
-  );
+  await withRetry(async () => {
+    if (tx) await tx.mkdir(backupDir);
+    else await fs.mkdir(backupDir, { recursive: true });
+  }, 'Creating backup directory');
   
   return backupDir;
 }
 
-async function getAllFiles(dir: string): Promise<string[]> {
-  const files: string[] = [];
-  
-  async function traverse(currentDir: string, prefix = ''): Promise<void> {
-    const entries = await fs.readdir(currentDir, { withFileTypes: true });
+export const IGNORED_DIRS = new Set([
+  'node_modules', 'dist', 'build', 'out', 'target', 'vendor', 'coverage', 'venv', 'env', '__pycache__', 'obj'
+]);
+
+export interface WalkEntry {
+  path: string;
+  name: string;
+  depth: number;
+  isDirectory: boolean;
+}
+
+export interface WalkOptions {
+  maxDepth?: number;
+  skip?: (entry: WalkEntry) => boolean;
+  sorted?: boolean;
+  onError?: (path: string, error: unknown) => void;
+}
+
+export async function* walkDirectory(dir: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+  async function* traverse(currentDir: string, prefix: string, depth: number): AsyncGenerator<WalkEntry> {
+    let entries;
+    try {
+      entries = await fs.readdir(currentDir, { withFileTypes: true });
+    } catch (error) {
+      if (!options.onError) throw error;
+      options.onError(prefix, error);
+      return;
+    }
+    if (options.sorted) {
+      entries.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+    }
     
     for (const entry of entries) {
-      const fullPath = join(currentDir, entry.name);
-      const relativePath = prefix ? join(prefix, entry.name) : entry.name;
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue;
       
-      if (entry.isDirectory()) {
-        await traverse(fullPath, relativePath);
-      } else if (entry.isFile()) {
-        files.push(relativePath);
+      const item = { path: prefix ? join(prefix, entry.name) : entry.name, name: entry.name, depth, isDirectory };
+      if (options.skip?.(item)) continue;
+      
+      yield item;
+      if (isDirectory && (options.maxDepth === undefined || depth < options.maxDepth)) {
+        yield* traverse(join(currentDir, entry.name), item.path, depth + 1);
       }
     }
   }
   
-  await traverse(dir);
+  yield* traverse(dir, '', 0);
+}
+
+export async function getAllFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of walkDirectory(dir)) {
+    if (!entry.isDirectory) files.push(entry.path);
+  }
   return files;
 }
 
+export async function readBackupManifest(backupDir: string): Promise<BackupManifest | undefined> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(join(backupDir, BACKUP_MANIFEST), 'utf-8'));
+    return manifest?.version === 1 && typeof manifest.files === 'object' ? manifest as BackupManifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function recordBackup(
+  tx: TransactionLog,
+  backupDir: string,
+  projectPath: string,
+  relativePath: string
+): Promise<void> {
+  const backupPath = join(backupDir, relativePath);
+  const entries = (await fs.stat(backupPath)).isDirectory()
+    ? (await getAllFiles(backupPath)).map(file => join(relativePath, file))
+    : [relativePath];
+  
+  const manifest = await readBackupManifest(backupDir) ?? {
+    version: 1,
+    project: resolve(projectPath),
+    createdAt: new Date().toISOString(),
+    files: {}
+  };
+  for (const entry of entries) {
+    manifest.files[entry.split(sep).join('/')] = await hashFile(join(backupDir, entry));
+  }
+  
+  await tx.write(join(backupDir, BACKUP_MANIFEST), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+export async function backupExisting(
+  tx: TransactionLog,
+  projectPath: string,
+  relativePath: string,
+  backupDir: string
+): Promise<void> {
+  const targetPath = join(projectPath, relativePath);
+  const backupPath = join(backupDir, relativePath);
+  
+  logger.info(`Backing up existing ${relativePath}`, { backup: backupPath });
+  await tx.copy(targetPath, backupPath);
+  await verifyBackup(targetPath, backupPath);
+  await recordBackup(tx, backupDir, projectPath, relativePath);
+}
+
+function isCodexOutput(output: string): boolean {
+  return output.split(/[\\/]/)[0] === CODEX_DIR;
+}
+
+export function getProjectTemplateDir(projectPath: string): string {
+  return join(projectPath, CODEX_DIR, 'templates');
+}
+
+async function collectTemplateDir(dir: string): Promise<TemplateFile[]> {
+  if (!await exists(dir)) return [];
+  
+  const files = (await getAllFiles(dir)).filter(
+    file => file.split(/[\\/]/)[0] !== PARTIALS_DIR
+  );
+  return files.map(file => ({
+    output: file.endsWith(TEMPLATE_SUFFIX) ? file.slice(0, -TEMPLATE_SUFFIX.length) : file,
+    source: join(dir, file)
+  }));
+}
+
+async function collectBundledFiles(): Promise<TemplateFile[]> {
+  const sourceDir = getSourceDir();
+  const codexDir = join(sourceDir, CODEX_DIR);
+  const codexFiles = await exists(codexDir)
+    ? (await getAllFiles(codexDir)).map(file => join(CODEX_DIR, file))
+    : [];
+  
+  const generated: TemplateFile = {
+    output: CODEX_CONFIG,
+    source: `(generated) ${CODEX_CONFIG}`,
+    generate: (variables, options) => renderCodexConfig(variables, options.codex)
+  };
+  
+  return [
+    generated,
+    ...[...codexFiles, ...ADDITIONAL_FILES].map(file => ({
+      output: file,
+      source: join(sourceDir, file)
+    }))
+  ];
+}
+
+export async function resolveTemplateFiles(
+  projectPath: string,
+  templateDir?: string
+): Promise<TemplateFile[]> {
+  const [, ...userLayers] = getTemplateLayers(projectPath, templateDir);
+  const layers = [
+    await collectBundledFiles(),
+    ...await Promise.all(userLayers.map(collectTemplateDir))
+  ];
+  
+  const resolved = new Map<string, TemplateFile>();
+  for (const file of layers.flat()) {
+    resolved.set(file.output, file);
+  }
+  
+  return [...resolved.values()];
+}
+
+async function resolveSelectedTemplates(
+  projectPath: string,
+  options: CopyOptions
+): Promise<TemplateFile[]> {
+  const templates = await resolveTemplateFiles(projectPath, options.templateDir);
+  const { outputs } = options;
+  if (!outputs) return templates;
+  
+  return templates.filter(template => outputs.includes(template.output.split(sep).join('/')));
+}
+
+function getTemplateLayers(projectPath: string, templateDir?: string): string[] {
+  return [
+    getSourceDir(),
+    getProjectTemplateDir(projectPath),
+    ...(templateDir ? [templateDir] : [])
+  ];
+}
+
+export async function resolvePartials(
+  projectPath: string,
+  templateDir?: string
+): Promise<Record<string, string>> {
+  const partials: Record<string, string> = {};
+  
+  for (const layer of getTemplateLayers(projectPath, templateDir)) {
+    const dir = join(layer, PARTIALS_DIR);
+    if (!await exists(dir)) continue;
+    
+    for (const file of await getAllFiles(dir)) {
+      const content = await fs.readFile(join(dir, file), 'utf-8');
+      const name = file.split(sep).join('/').replace(/\.tmpl$/, '');
+      partials[name] = content;
+      partials[name.replace(/\.[^./]+$/, '')] = content;
+    }
+  }
+  
+  return partials;
+}
+
+async function renderSourceFile(
+  template: TemplateFile,
+  variables: TemplateVariables,
+  renderOptions: RenderOptions,
+  options: CopyOptions
+): Promise<string> {
+  if (template.generate) return template.generate(variables, options);
+  
+  const content = await fs.readFile(template.source, 'utf-8');
+  return content.includes('{{')
+    ? renderTemplate(content, variables, renderOptions)
+    : content;
+}
+
+async function renderOutputs(
+  projectPath: string,
+  templates: TemplateFile[],
+  variables: TemplateVariables,
+  options: CopyOptions
+): Promise<CompanionFile[]> {
+  const { subdirectory = '', templateDir, registry, agents = [] } = options;
+  const partials = await resolvePartials(projectPath, templateDir);
+  const render = (template: TemplateFile) => renderSourceFile(template, variables, { partials, registry }, options);
+  
+  const rendered: CompanionFile[] = [];
+  for (const template of templates) {
+    rendered.push({ output: template.output, content: await render(template) });
+  }
+  
+  if (subdirectory || agents.length === 0) return rendered;
+  
+  const instructions = (await resolveTemplateFiles(projectPath, templateDir))
+    .find(template => template.output === INSTRUCTIONS_FILE);
+  if (!instructions) return rendered;
+  
+  return [...rendered, ...renderCompanionFiles(await render(instructions), agents)];
+}
+
+async function buildFileContent(
+  targetPath: string,
+  file: CompanionFile,
+  mergeMode: MergeMode
+): Promise<{ content: string; existing?: string }> {
+  if (!await exists(targetPath)) {
+    return { content: wrapManagedContent(file.content, targetPath) };
+  }
+  
+  const existing = await fs.readFile(targetPath, 'utf-8');
+  const merged = mergeMode === 'append' ? file.merge?.(existing) : undefined;
+  return {
+    content: merged ?? mergeManagedContent(existing, file.content, targetPath, mergeMode),
+    existing
+  };
+}
+
+async function writeManagedFile(
+  tx: TransactionLog,
+  projectPath: string,
+  relativePath: string,
+  file: CompanionFile,
+  mergeMode: MergeMode
+): Promise<WrittenFile> {
+  const targetPath = join(projectPath, relativePath);
+  const built = await buildFileContent(targetPath, file, mergeMode);
+  await tx.write(targetPath, built.content);
+  
+  return {
+    path: relativePath.split(sep).join('/'),
+    status: built.existing === undefined ? 'created' : 'updated',
+    sha256: createHash('sha256').update(built.content).digest('hex')
+  };
+}
+
+export async function planFiles(
+  projectPath: string,
+  variables: TemplateVariables,
+  options: CopyOptions = {}
+): Promise<PlannedFile[]> {
+  const { mergeMode = 'append', subdirectory = '', registry } = options;
+  const validatedVars = validateTemplateVariables(variables, registry);
+  
+  const templates = (await resolveSelectedTemplates(projectPath, options))
+    .filter(template => !subdirectory || MEMBER_FILES.includes(template.output));
+  
+  const planned: PlannedFile[] = [];
+  for (const file of await renderOutputs(projectPath, templates, validatedVars, options)) {
+    const relativePath = join(subdirectory, file.output);
+    const targetPath = join(projectPath, relativePath);
+    await validatePathSecurity(targetPath, projectPath);
+    
+    const built = await buildFileContent(targetPath, file, mergeMode);
+    planned.push({ path: relativePath, ...built });
+  }
+  
+  return planned;
+}
+
 export async function copyCodexDirectory(
   projectPath: string,
   variables: TemplateVariables,
-  sharedBackupDir?: string
-): Promise<{ filesProcessed: number; backupDir?: string | undefined }> {
-  const targetDir = join(projectPath, '.codex');
-  const sourceDir = join(getSourceDir(), '.codex');
-  
-  if (!await exists(sourceDir)) {
-    logger.debug('.codex directory not found in skel, skipping');
-    return { filesProcessed: 0, backupDir: sharedBackupDir };
+  sharedBackupDir?: string,
+  options: CopyOptions = {}
+): Promise<CopyResult> {
+  const { mergeMode = 'append', registry, backup } = options;
+  const backupEnabled = backup?.enabled ?? true;
+  const targetDir = join(projectPath, CODEX_DIR);
+  const templates = (await resolveSelectedTemplates(projectPath, options)).filter(
+    template => isCodexOutput(template.output)
+  );
+  
+  if (templates.length === 0) {
+    logger.debug('No .codex templates found, skipping');
+    return { filesProcessed: 0, backupDir: sharedBackupDir, files: [] };
   }
   
   await validatePathSecurity(targetDir, projectPath);
   
-  const tx = new TransactionLog();
-  await tx.init();
+  const tx = options.transaction ?? new TransactionLog();
+  const ownsTransaction = !options.transaction;
+  if (ownsTransaction) await tx.init();
   
   let backupDir = sharedBackupDir;
   
   try {
     logger.info('Starting .codex directory copy', { target: targetDir });
     
-    if (await exists(targetDir)) {
-      backupDir = backupDir || await createBackupDir(projectPath);
-      const backupPath = join(backupDir, '.codex');
-      
-      logger.info('Backing up existing .codex directory', { backup: backupPath });
-      await tx.copy(targetDir, backupPath);
-      await verifyBackup(targetDir, backupPath);
+    if (backupEnabled && await exists(targetDir)) {
+      backupDir = backupDir || await createBackupDir(projectPath, backup, tx);
+      await backupExisting(tx, projectPath, CODEX_DIR, backupDir);
     }
     
-    const files = await getAllFiles(sourceDir);
-    const validatedVars = validateTemplateVariables(variables);
+    const validatedVars = validateTemplateVariables(variables, registry);
+    const outputs = await renderOutputs(projectPath, templates, validatedVars, { ...options, agents: undefined });
+    const written: WrittenFile[] = [];
     
-    for (const file of files) {
-      const sourcePath = join(sourceDir, file);
-      const targetPath = join(targetDir, file);
-      
-      const content = await fs.readFile(sourcePath, 'utf-8');
-      const processed = content.includes('{{') 
-        ? renderTemplate(content, validatedVars)
-        : content;
+    for (const file of outputs) {
+      const targetPath = join(projectPath, file.output);
+      await validatePathSecurity(targetPath, projectPath);
       
-      await tx.write(targetPath, processed);
+      written.push(await writeManagedFile(tx, projectPath, file.output, file, mergeMode));
     }
     
-    await tx.commit();
-    logger.info('.codex directory copy completed', { files: files.length });
+    if (ownsTransaction) await tx.commit();
+    logger.info('.codex directory copy completed', { files: templates.length });
     
-    return { filesProcessed: files.length, backupDir: backupDir };
+    return { filesProcessed: templates.length, backupDir: backupDir, files: written };
   } catch (error) {
-    logger.error('Failed to copy .codex directory, rolling back', { 
-      error: error instanceof Error ? error.message : String(error) 
-    });
-    
-    await tx.rollback();
+    if (ownsTransaction) {
+      logger.error('Failed to copy .codex directory, rolling back', { 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+      await tx.rollback();
+    }
     throw error;
   }
 }
@@ -163,55 +511,52 @@ export async function copyCodexDirectory(
 export async function copyAdditionalFiles(
   projectPath: string,
   variables: TemplateVariables,
-  sharedBackupDir?: string
-): Promise<{ filesProcessed: number }> {
-  const files = ['AGENTS.md'];
-  const sourceDir = getSourceDir();
+  sharedBackupDir?: string,
+  options: CopyOptions = {}
+): Promise<CopyResult> {
+  const { mergeMode = 'append', subdirectory = '', registry, backup } = options;
+  const backupEnabled = backup?.enabled ?? true;
+  const templates = (await resolveSelectedTemplates(projectPath, options)).filter(template =>
+    subdirectory ? MEMBER_FILES.includes(template.output) : !isCodexOutput(template.output)
+  );
   
-  const tx = new TransactionLog();
-  await tx.init();
+  const tx = options.transaction ?? new TransactionLog();
+  const ownsTransaction = !options.transaction;
+  if (ownsTransaction) await tx.init();
   
   let backupDir = sharedBackupDir;
-  let processedCount = 0;
+  const written: WrittenFile[] = [];
   
   try {
-    logger.info('Copying additional files', { files });
-    const validatedVars = validateTemplateVariables(variables);
+    const validatedVars = validateTemplateVariables(variables, registry);
+    const outputs = await renderOutputs(projectPath, templates, validatedVars, options);
+    logger.info('Copying additional files', { files: outputs.map(file => file.output) });
     
-    for (const fileName of files) {
-      const sourcePath = join(sourceDir, fileName);
-      const targetPath = join(projectPath, fileName);
+    for (const file of outputs) {
+      const relativePath = join(subdirectory, file.output);
+      const targetPath = join(projectPath, relativePath);
       
       await validatePathSecurity(targetPath, projectPath);
       
-      if (await exists(targetPath)) {
-        backupDir = backupDir || await createBackupDir(projectPath);
-        const backupPath = join(backupDir, fileName);
-        
-        logger.info(`Backing up existing ${fileName}`, { backup: backupPath });
-        await tx.copy(targetPath, backupPath);
-        await verifyBackup(targetPath, backupPath);
+      if (backupEnabled && await exists(targetPath)) {
+        backupDir = backupDir || await createBackupDir(projectPath, backup, tx);
+        await backupExisting(tx, projectPath, relativePath, backupDir);
       }
       
-      const content = await fs.readFile(sourcePath, 'utf-8');
-      const processed = content.includes('{{')
-        ? renderTemplate(content, validatedVars)
-        : content;
-      
-      await tx.write(targetPath, processed);
-      processedCount++;
+      written.push(await writeManagedFile(tx, projectPath, relativePath, file, mergeMode));
     }
     
-    await tx.commit();
-    logger.info('Additional files copy completed', { count: processedCount });
+    if (ownsTransaction) await tx.commit();
+    logger.info('Additional files copy completed', { count: written.length });
     
-    return { filesProcessed: processedCount };
+    return { filesProcessed: written.length, backupDir, files: written };
   } catch (error) {
-    logger.error('Failed to copy additional files, rolling back', {
-      error: error instanceof Error ? error.message : String(error)
-    });
-    
-    await tx.rollback();
+    if (ownsTransaction) {
+      logger.error('Failed to copy additional files, rolling back', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await tx.rollback();
+    }
     throw error;
   }
 }
@@ -0,0 +1,83 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { exists } from './utils.js';
+
+export interface GoModule {
+  module?: string;
+  requires: string[];
+}
+
+export interface GoCommands {
+  install: string;
+  dev?: string;
+  build: string;
+  test: string;
+}
+
+const FRAMEWORKS: Array<{ modules: string[]; framework: string }> = [
+  { modules: ['github.com/gin-gonic/gin'], framework: 'Gin' },
+  { modules: ['github.com/labstack/echo'], framework: 'Echo' },
+  { modules: ['github.com/gofiber/fiber'], framework: 'Fiber' },
+  { modules: ['github.com/go-chi/chi'], framework: 'Chi' }
+];
+
+const SERVER_FRAMEWORKS = new Set(FRAMEWORKS.map(({ framework }) => framework));
+
+function stripMajorVersion(path: string): string {
+  return path.replace(/\/v\d+$/, '');
+}
+
+export function parseGoMod(content: string): GoModule {
+  const lines = content.split('\n').map(line => line.replace(/\/\/.*$/, '').trim());
+  const requires: string[] = [];
+  let module: string | undefined;
+  let inRequireBlock = false;
+  
+  for (const line of lines) {
+    if (inRequireBlock) {
+      if (line === ')') inRequireBlock = false;
+      else if (line) requires.push(line.split(/\s+/)[0]!);
+      continue;
+    }
+    
+    const moduleMatch = line.match(/^module\s+(\S+)/);
+    if (moduleMatch) module = moduleMatch[1]!;
+    
+    if (/^require\s*\($/.test(line)) inRequireBlock = true;
+    else if (line.startsWith('require ')) requires.push(line.split(/\s+/)[1]!);
+  }
+  
+  return { ...(module ? { module } : {}), requires };
+}
+
+export async function readGoModule(projectPath: string): Promise<GoModule | undefined> {
+  const content = await readFile(join(projectPath, 'go.mod'), 'utf-8').catch(() => undefined);
+  return content === undefined ? undefined : parseGoMod(content);
+}
+
+export async function detectGoFramework(projectPath: string): Promise<string | undefined> {
+  const goModule = await readGoModule(projectPath);
+  if (!goModule) return undefined;
+  
+  const requires = new Set(goModule.requires.map(stripMajorVersion));
+  return FRAMEWORKS.find(({ modules }) => modules.some(path => requires.has(path)))?.framework;
+}
+
+async function findMainPackage(projectPath: string): Promise<string> {
+  if (await exists(join(projectPath, 'main.go'))) return '.';
+  
+  const commands = await readdir(join(projectPath, 'cmd'), { withFileTypes: true }).catch(() => []);
+  const directories = commands.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  return directories.length === 1 ? `./cmd/${directories[0]}` : '.';
+}
+
+export async function getGoCommands(projectPath: string, framework: string): Promise<GoCommands> {
+  const dev = SERVER_FRAMEWORKS.has(framework) ? `go run ${await findMainPackage(projectPath)}` : undefined;
+  
+  return {
+    install: 'go mod download',
+    ...(dev ? { dev } : {}),
+    build: 'go build ./...',
+    test: 'go test ./...'
+  };
+}
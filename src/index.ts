@@ -1,11 +1,173 @@
-export { init } from './init.js';
-export type { InitResult, InitOptions } from './init.js';
+export { init, planRun } from './init.js';
+export type {
+  InitResult,
+  InitOptions,
+  ResolvedSetting,
+  SettingSource,
+  FilePreview,
+  PreviewStatus
+} from './init.js';
+export { check } from './check.js';
+export type { CheckResult, CheckOptions, CheckFileResult, CheckStatus } from './check.js';
+export { detect } from './detect.js';
+export type { DetectResult, DetectOptions, DetectEntry } from './detect.js';
 export { ErrorCode } from './types.js';
-export type { ProjectContext, TemplateVariables, PackageManager, Runtime } from './types.js';
-export { detectProjectContext, getTemplateVariables } from './projects.js';
-export { copyCodexDirectory, copyAdditionalFiles } from './files.js';
-export { detectPackageManager, detectRuntime, detectFramework, exists, ProgressIndicator } from './utils.js';
+export type {
+  ProjectContext,
+  TemplateVariables,
+  TemplateListItem,
+  TemplateValue,
+  PackageManager,
+  Runtime,
+  Evidence,
+  Detection,
+  StackInfo,
+  WorkspaceInfo,
+  WorkspaceMember,
+  WorkspaceMemberVariables,
+  WorkspaceTool,
+  Orchestrator
+} from './types.js';
+export {
+  detectProjectContext,
+  getTemplateVariables,
+  explainTemplateVariables,
+  getWorkspaceTemplateVariables
+} from './projects.js';
+export type { ExplainedVariables } from './projects.js';
+export { detectWorkspaces } from './workspaces.js';
+export { detectStacks } from './stacks.js';
+export { detectJsPackageManager, getRunScriptCommand, JS_PACKAGE_MANAGERS } from './javascript.js';
+export type { JsPackageManager, YarnVariant, PackageManagerDetection } from './javascript.js';
+export {
+  readPythonProject,
+  detectPythonPackageManager,
+  detectPythonFramework,
+  getPythonCommands,
+  PYTHON_PACKAGE_MANAGERS
+} from './python.js';
+export type { PythonProject, PythonPackageManager, PythonCommands } from './python.js';
+export { readCargoManifest, getCrateNames, detectRustFramework } from './rust.js';
+export { parseGoMod, readGoModule, detectGoFramework } from './go.js';
+export type { GoModule } from './go.js';
+export { detectJvmBuildTool, detectJvmFramework } from './jvm.js';
+export type { JvmBuildTool } from './jvm.js';
+export { detectNativeBuildSystem } from './cpp.js';
+export type { NativeBuildSystem } from './cpp.js';
+export {
+  detectTaskRunners,
+  getTaskRunnerCommands,
+  parseMakefileTargets,
+  parseJustfileRecipes,
+  parseTaskfileTasks
+} from './tasks.js';
+export type { TaskRunner, TaskRunnerInfo, TaskRunnerCommands } from './tasks.js';
+export {
+  parseToml,
+  getTomlValue,
+  getTomlString,
+  getTomlStrings,
+  getTomlTable,
+  isTomlTable,
+  TomlError
+} from './toml.js';
+export type { TomlValue, TomlTable } from './toml.js';
+export {
+  parseYaml,
+  getYamlValue,
+  getYamlString,
+  getYamlList,
+  getYamlMapping,
+  isYamlMapping,
+  YamlError
+} from './yaml.js';
+export type { YamlValue, YamlMapping } from './yaml.js';
+export { detectCiCommands, classifyCiCommand, splitCiScript } from './ci.js';
+export type { CiCommand, CiRole } from './ci.js';
+export { detectTestRunner, explainTestRunner, getTestRecipes, detectTestFilePatterns } from './testing.js';
+export type { TestRunner, TestRunnerInfo, TestRecipes } from './testing.js';
+export { renderProjectStructure, parseGitignore, isIgnored } from './structure.js';
+export type { IgnoreRule, StructureOptions } from './structure.js';
+export {
+  copyCodexDirectory,
+  copyAdditionalFiles,
+  planFiles,
+  resolveTemplateFiles,
+  resolvePartials
+} from './files.js';
+export type {
+  CopyOptions,
+  CopyResult,
+  BackupOptions,
+  BackupManifest,
+  PlannedFile,
+  TemplateFile,
+  WrittenFile,
+  WrittenFileStatus
+} from './files.js';
+export { listBackups, restore, pruneBackups, isBackupId } from './backups.js';
+export type {
+  BackupInfo,
+  BackupsResult,
+  BackupCommandOptions,
+  RestoreOptions,
+  PruneOptions
+} from './backups.js';
+export { AGENTS, AGENT_NAMES, parseAgents, renderCompanionFiles } from './agents.js';
+export type { AgentName, AgentSelection, CompanionMode, CompanionFile } from './agents.js';
+export {
+  renderCodexConfig,
+  tomlString,
+  tomlKey,
+  tomlArray,
+  APPROVAL_POLICIES,
+  SANDBOX_MODES
+} from './codex-config.js';
+export type {
+  CodexSettings,
+  ApprovalPolicy,
+  SandboxMode,
+  ShellEnvironmentSettings,
+  ShellEnvironmentInherit
+} from './codex-config.js';
+export { mergeManagedContent, wrapManagedContent, hasManagedRegions, removeManagedContent } from './merge.js';
+export type { MergeMode } from './merge.js';
+export {
+  detectPackageManager,
+  detectRuntime,
+  detectFramework,
+  explainPackageManager,
+  explainRuntime,
+  explainFramework,
+  exists,
+  ProgressIndicator
+} from './utils.js';
 export { logger, LogLevel, configureLogger } from './logger.js';
 export { atomicWrite, atomicCopy, atomicMove, TransactionLog, withRetry } from './atomic.js';
-export { renderTemplate, validateTemplateVariables } from './template.js';
+export type { RollbackFailure } from './atomic.js';
+export { createUnifiedDiff } from './diff.js';
+export type { DiffOptions } from './diff.js';
+export { renderTemplate, validateTemplateVariables, validateTemplateSyntax } from './template.js';
+export type { RenderOptions } from './template.js';
+export {
+  BUILTIN_VARIABLES,
+  DEFAULT_REGISTRY,
+  createVariableRegistry,
+  resolveCustomVariables,
+  parseVariableAssignment
+} from './variables.js';
+export type {
+  VariableType,
+  VariableDefinition,
+  VariableRegistry,
+  CustomVariableDefinition,
+  ResolvedVariables,
+  BuiltinVariables
+} from './variables.js';
+export { loadConfig, findConfigFile, parseConfig, getSchemaPath, CONFIG_FILES } from './config.js';
+export type { CreateCodexConfig, ConfigCommands, ConfigOverrides, BackupConfig, LoadedConfig } from './config.js';
+export { runWizard, saveWizardAnswers, WizardCancelledError } from './wizard.js';
+export type { WizardOptions, WizardResult } from './wizard.js';
+export { validateSchema } from './schema.js';
+export type { JsonSchema, SchemaError } from './schema.js';
 export { execute, executeQuiet, executeWithRetry } from './exec.js';
@@ -1,14 +1,84 @@
-import { detectProjectContext, getTemplateVariables } from './projects.js';
-import { copyCodexDirectory, copyAdditionalFiles } from './files.js';
-import { join, dirname } from 'node:path';
+import {
+  detectProjectContext,
+  explainTemplateVariables,
+  getWorkspaceTemplateVariables,
+  type ExplainedVariables
+} from './projects.js';
+import {
+  copyCodexDirectory,
+  copyAdditionalFiles,
+  resolveTemplateFiles,
+  resolvePartials,
+  readBackupManifest,
+  planFiles,
+  getAllFiles,
+  hashFile,
+  type PlannedFile,
+  type BackupOptions,
+  type CopyOptions,
+  type WrittenFile,
+  type TemplateFile
+} from './files.js';
+import { join, dirname, isAbsolute, sep } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { promises as fs } from 'node:fs';
+import { createHash } from 'node:crypto';
 import { exists } from './utils.js';
-import { ErrorCode, type TemplateVariables } from './types.js';
+import { TransactionLog, type RollbackFailure } from './atomic.js';
+import {
+  ErrorCode,
+  type PackageManager,
+  type ProjectContext,
+  type TemplateVariables,
+  type WorkspaceMemberVariables
+} from './types.js';
+import type { MergeMode } from './merge.js';
+import { validateTemplateSyntax } from './template.js';
+import { createUnifiedDiff } from './diff.js';
+import {
+  loadConfig,
+  applyConfigToContext,
+  getVariableOverrides,
+  mergeOverrides,
+  COMMAND_VARIABLES,
+  type LoadedConfig,
+  type CreateCodexConfig,
+  type ConfigCommands,
+  type ConfigOverrides
+} from './config.js';
+import { resolveCustomVariables, type ResolvedVariables } from './variables.js';
+import { parseAgents, describeAgents, type AgentSelection } from './agents.js';
+import type { CodexSettings } from './codex-config.js';
 import { logger, LogLevel, configureLogger } from './logger.js';
 
 export interface InitOptions {
   dryRun?: boolean;
+  mergeMode?: MergeMode;
+  templateDir?: string | undefined;
+  packageManager?: PackageManager;
+  variables?: Record<string, string>;
+  overrides?: ConfigOverrides;
+  backup?: BackupOptions;
+  agents?: string[];
+  codex?: CodexSettings;
+}
+
+export type SettingSource = 'cli' | 'prompt' | 'config' | 'detected' | 'default';
+
+export interface ResolvedSetting {
+  name: string;
+  value: string;
+  source: SettingSource;
+}
+
+export interface PreparedRun {
+  configPath?: string;
+  context: ProjectContext;
+  templateVariables: TemplateVariables;
+  detectedVariables: ExplainedVariables;
+  memberVariables: WorkspaceMemberVariables[];
+  copyOptions: CopyOptions;
+  settings: ResolvedSetting[];
 }
 
 export interface InitResult {
@@ -16,12 +86,32 @@ export interface InitResult {
   filesCreated: number;
   message: string;
   createdFiles?: string[];
+  mergedFiles?: string[];
   projectName?: string;
   dryRun?: boolean;
   errorCode?: ErrorCode;
+  configPath?: string;
+  settings?: ResolvedSetting[];
+  rollbackFailures?: RollbackFailure[];
+  updatedFiles?: string[];
+  files?: WrittenFile[];
+  backupDir?: string;
+  backedUpFiles?: Record<string, string>;
+  context?: ProjectContext;
+  variables?: TemplateVariables;
+  preview?: FilePreview[];
+}
+
+export type PreviewStatus = 'new' | 'modified' | 'unchanged';
+
+export interface FilePreview {
+  path: string;
+  status: PreviewStatus;
+  content: string;
+  diff: string;
 }
 
-class InitError extends Error {
+export class InitError extends Error {
   constructor(message: string, public code: ErrorCode) {
     super(message);
     this.name = 'InitError';
@@ -60,7 +150,7 @@ async function validateTargetDirectory(projectPath: string): Promise<void> {
   }
 }
 
-async function validateSkelFiles(): Promise<void> {
+export async function validateSkelFiles(): Promise<void> {
   const skelDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'skel');
   
   if (!await exists(skelDir)) {
@@ -96,8 +186,74 @@ async function validateSkelFiles(): Promise<void> {
   }
 }
 
-async function checkExistingFiles(projectPath: string): Promise<string[]> {
-  const files = ['AGENTS.md'];
+const MAX_TEMPLATE_SIZE = 256 * 1024;
+
+function invalidTemplate(problem: string, path: string): InitError {
+  return new InitError(
+    `INVALID TEMPLATE: ${problem}\n` +
+    `File: ${path}\n` +
+    `Action: Fix or remove the template file`,
+    ErrorCode.INVALID_TEMPLATE
+  );
+}
+
+async function validateTemplateFile(template: TemplateFile): Promise<void> {
+  const segments = template.output.split(/[\\/]/);
+  if (isAbsolute(template.output) || segments.includes('..')) {
+    throw invalidTemplate('Output path escapes the project directory', template.source);
+  }
+  if (segments[0] === '.codex' && segments[1] === 'templates') {
+    throw invalidTemplate('Templates cannot write into .codex/templates', template.source);
+  }
+  if (template.generate) return;
+  
+  const stats = await fs.stat(template.source).catch(() => null);
+  if (!stats?.isFile()) {
+    throw invalidTemplate('Template file is missing or not a regular file', template.source);
+  }
+  if (stats.size > MAX_TEMPLATE_SIZE) {
+    throw invalidTemplate(`Template exceeds ${MAX_TEMPLATE_SIZE} bytes`, template.source);
+  }
+  
+  const content = await fs.readFile(template.source);
+  if (content.includes(0)) {
+    throw invalidTemplate('Template is not a text file', template.source);
+  }
+  
+  checkTemplateSyntax(content.toString('utf-8'), template.source);
+}
+
+function checkTemplateSyntax(content: string, path: string): void {
+  try {
+    validateTemplateSyntax(content);
+  } catch (error) {
+    throw invalidTemplate(error instanceof Error ? error.message : String(error), path);
+  }
+}
+
+export async function validateTemplateSources(projectPath: string, templateDir?: string): Promise<void> {
+  if (templateDir) {
+    const stats = await fs.stat(templateDir).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new InitError(
+        `TEMPLATE NOT FOUND: Not a directory\n` +
+        `Expected: ${templateDir}\n` +
+        `Action: Pass a directory containing template files to --template`,
+        ErrorCode.INVALID_TEMPLATE
+      );
+    }
+  }
+  
+  const templates = await resolveTemplateFiles(projectPath, templateDir);
+  await Promise.all(templates.map(validateTemplateFile));
+  
+  const partials = await resolvePartials(projectPath, templateDir);
+  for (const [name, content] of Object.entries(partials)) {
+    checkTemplateSyntax(content, `partials/${name}`);
+  }
+}
+
+async function checkExistingFiles(projectPath: string, files: string[]): Promise<string[]> {
   const existing: string[] = [];
   
   await Promise.all(
@@ -112,67 +268,278 @@ async function checkExistingFiles(projectPath: string): Promise<string[]> {
   return existing;
 }
 
-async function countFilesRecursively(dir: string): Promise<number> {
-  let count = 0;
+export async function planRun(projectPath: string, run: PreparedRun): Promise<PlannedFile[]> {
+  const planned = await planFiles(projectPath, run.templateVariables, run.copyOptions);
   
-  async function traverse(currentDir: string): Promise<void> {
-    const entries = await fs.readdir(currentDir, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      if (entry.isFile()) {
-        count++;
-      } else if (entry.isDirectory()) {
-        await traverse(join(currentDir, entry.name));
-      }
-    }
+  for (const member of run.memberVariables) {
+    planned.push(...await planFiles(projectPath, member.variables, { ...run.copyOptions, subdirectory: member.path }));
   }
+  return planned;
+}
+
+function previewFile(file: PlannedFile): FilePreview {
+  const status: PreviewStatus = file.existing === undefined ? 'new'
+    : file.existing === file.content ? 'unchanged'
+    : 'modified';
   
-  await traverse(dir);
-  return count;
+  const diff = status === 'unchanged' ? '' : createUnifiedDiff(file.existing ?? '', file.content, {
+    fromFile: status === 'new' ? '/dev/null' : `a/${file.path}`,
+    toFile: `b/${file.path}`
+  });
+  
+  return { path: file.path, status, content: file.content, diff };
 }
 
-async function performDryRun(
-  _projectPath: string,
-  context: any
-): Promise<InitResult> {
-  const skelDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'skel');
-  const codexDir = join(skelDir, '.codex');
-  let codexFiles = 0;
+async function planBackups(
+  projectPath: string,
+  planned: PlannedFile[],
+  copyOptions: CopyOptions
+): Promise<Record<string, string>> {
+  if (copyOptions.backup?.enabled === false) return {};
+  
+  const isCodexFile = (path: string) => path.split(/[\\/]/)[0] === '.codex';
+  const codexDir = join(projectPath, '.codex');
+  const paths = planned
+    .filter(file => file.existing !== undefined && !isCodexFile(file.path))
+    .map(file => file.path);
   
-  if (await exists(codexDir)) {
-    codexFiles = await countFilesRecursively(codexDir);
+  if (planned.some(file => isCodexFile(file.path)) && await exists(codexDir)) {
+    paths.unshift(...(await getAllFiles(codexDir)).map(file => join('.codex', file)));
   }
   
-  const additionalFiles = 1;
-  const totalFiles = codexFiles + additionalFiles;
+  const backups: Record<string, string> = {};
+  for (const path of paths) {
+    backups[path.split(sep).join('/')] = await hashFile(join(projectPath, path));
+  }
+  return backups;
+}
+
+async function performDryRun(projectPath: string, run: PreparedRun): Promise<InitResult> {
+  const { context } = run;
+  const planned = await planRun(projectPath, run);
+  const preview = planned.map(previewFile);
+  const backedUpFiles = await planBackups(projectPath, planned, run.copyOptions);
+  
+  const count = (status: PreviewStatus) => preview.filter(file => file.status === status).length;
+  const changed = preview.filter(file => file.status !== 'unchanged');
   
   return {
     success: true,
-    filesCreated: totalFiles,
-    message: `[DRY RUN] Would create ${totalFiles} files for ${context.projectName} (${context.runtime} + ${context.framework})`,
-    dryRun: true
+    filesCreated: changed.length,
+    message: `[DRY RUN] Would create ${count('new')}, update ${count('modified')} and leave ${count('unchanged')} ` +
+      `unchanged for ${context.projectName} (${context.runtime} + ${context.framework})`,
+    dryRun: true,
+    preview,
+    files: changed.map(file => ({
+      path: file.path,
+      status: file.status === 'new' ? 'created' : 'updated',
+      sha256: createHash('sha256').update(file.content).digest('hex')
+    })),
+    ...(Object.keys(backedUpFiles).length > 0 ? { backedUpFiles } : {})
+  };
+}
+
+async function loadProjectConfig(projectPath: string): Promise<LoadedConfig> {
+  try {
+    return await loadConfig(projectPath);
+  } catch (error) {
+    throw new InitError(error instanceof Error ? error.message : String(error), ErrorCode.INVALID_CONFIG);
+  }
+}
+
+function resolveVariables(
+  config: CreateCodexConfig,
+  assignments: Record<string, string> = {}
+): ResolvedVariables {
+  try {
+    return resolveCustomVariables(config.variables, assignments);
+  } catch (error) {
+    throw new InitError(error instanceof Error ? error.message : String(error), ErrorCode.INVALID_VARIABLE);
+  }
+}
+
+async function validateOutputs(projectPath: string, copyOptions: CopyOptions): Promise<void> {
+  if (!copyOptions.outputs) return;
+  
+  const available = new Set(
+    (await resolveTemplateFiles(projectPath, copyOptions.templateDir)).map(template => template.output.split(sep).join('/'))
+  );
+  const unknown = copyOptions.outputs.filter(output => !available.has(output));
+  
+  if (unknown.length > 0) {
+    throw new InitError(
+      `INVALID CONFIG: outputs\n` +
+      `Unknown: ${unknown.join(', ')}\n` +
+      `Action: List only files produced by the templates (${[...available].join(', ')})`,
+      ErrorCode.INVALID_CONFIG
+    );
+  }
+}
+
+function resolveAgents(config: CreateCodexConfig, cliAgents?: string[]): AgentSelection[] {
+  try {
+    return parseAgents(cliAgents ?? config.agents ?? []);
+  } catch (error) {
+    throw new InitError(error instanceof Error ? error.message : String(error), ErrorCode.INVALID_CONFIG);
+  }
+}
+
+function describeSettings(
+  options: InitOptions,
+  config: CreateCodexConfig,
+  detected: ProjectContext,
+  variables: TemplateVariables,
+  custom: ResolvedVariables
+): ResolvedSetting[] {
+  const overrides = options.overrides ?? {};
+  const pick = (
+    name: string,
+    candidates: Array<[SettingSource, string | undefined]>,
+    fallback: string,
+    fallbackSource: SettingSource
+  ): ResolvedSetting => {
+    const found = candidates.find(([, value]) => value !== undefined);
+    return found
+      ? { name, value: found[1]!, source: found[0] }
+      : { name, value: fallback, source: fallbackSource };
+  };
+  
+  const describeBackup = (backup?: BackupOptions): string | undefined =>
+    backup && (backup.enabled === false ? 'disabled' : `enabled${backup.dir ? ` (${backup.dir})` : ''}`);
+  
+  return [
+    pick('projectName', [['prompt', overrides.projectName], ['config', config.projectName]], detected.projectName, 'detected'),
+    pick('purpose', [['prompt', overrides.purpose], ['config', config.purpose]], variables.PURPOSE ?? '', 'detected'),
+    pick(
+      'packageManager',
+      [['prompt', overrides.packageManager], ['cli', options.packageManager], ['config', config.packageManager]],
+      detected.packageManager,
+      'detected'
+    ),
+    pick('runtime', [['prompt', overrides.runtime], ['config', config.runtime]], detected.runtime, 'detected'),
+    pick('framework', [['prompt', overrides.framework], ['config', config.framework]], detected.framework, 'detected'),
+    ...Object.entries(COMMAND_VARIABLES).map(([key, variable]) => pick(
+      `commands.${key}`,
+      [
+        ['prompt', overrides.commands?.[key as keyof ConfigCommands]],
+        ['config', config.commands?.[key as keyof ConfigCommands]]
+      ],
+      variables[variable] ?? '',
+      'detected'
+    )),
+    pick('templateDir', [['cli', options.templateDir], ['config', config.templateDir]], '(bundled)', 'default'),
+    pick('merge', [['cli', options.mergeMode], ['config', config.merge]], 'append', 'default'),
+    pick('outputs', [['config', config.outputs?.join(', ')]], '(all)', 'default'),
+    pick(
+      'agents',
+      [['cli', options.agents && describeAgents(parseAgents(options.agents))], ['config', config.agents?.join(', ')]],
+      'codex',
+      'default'
+    ),
+    pick('codex.approvalPolicy', [['cli', options.codex?.approvalPolicy], ['config', config.codex?.approvalPolicy]], 'on-request', 'default'),
+    pick('codex.sandboxMode', [['cli', options.codex?.sandboxMode], ['config', config.codex?.sandboxMode]], 'workspace-write', 'default'),
+    pick(
+      'codex.writableRoots',
+      [['cli', options.codex?.writableRoots?.join(', ')], ['config', config.codex?.writableRoots?.join(', ')]],
+      '(project only)',
+      'default'
+    ),
+    pick('backup', [['cli', describeBackup(options.backup)], ['config', describeBackup(config.backup)]], 'enabled', 'default'),
+    ...Object.entries(custom.values).map(([name, value]) => pick(
+      `variables.${name}`,
+      [['cli', options.variables?.[name]]],
+      String(value),
+      'config'
+    ))
+  ];
+}
+
+export async function prepareRun(projectPath: string, options: InitOptions = {}): Promise<PreparedRun> {
+  const { path: configPath, config: loadedConfig } = await loadProjectConfig(projectPath);
+  const config = mergeOverrides(loadedConfig, {
+    ...(options.packageManager ? { packageManager: options.packageManager } : {}),
+    ...options.overrides
+  });
+  const templateDir = options.templateDir ?? config.templateDir;
+  
+  await validateTemplateSources(projectPath, templateDir);
+  const custom = resolveVariables(config, options.variables);
+  
+  const copyOptions: CopyOptions = {
+    mergeMode: options.mergeMode ?? config.merge ?? 'append',
+    templateDir,
+    registry: custom.registry,
+    outputs: config.outputs,
+    backup: { ...config.backup, ...options.backup },
+    agents: resolveAgents(config, options.agents),
+    codex: { ...config.codex, ...options.codex }
+  };
+  await validateOutputs(projectPath, copyOptions);
+  
+  const detected = await detectProjectContext(projectPath);
+  const context = applyConfigToContext(detected, config);
+  const detectedVariables = await explainTemplateVariables(context, projectPath);
+  const templateVariables: TemplateVariables = {
+    ...detectedVariables.variables,
+    ...getVariableOverrides(config),
+    ...custom.values
+  };
+  const memberVariables = (await getWorkspaceTemplateVariables(context, projectPath)).map(member => ({
+    path: member.path,
+    variables: { ...member.variables, ...custom.values }
+  }));
+  
+  return {
+    ...(configPath ? { configPath } : {}),
+    context,
+    templateVariables,
+    detectedVariables,
+    memberVariables,
+    copyOptions,
+    settings: describeSettings(options, loadedConfig, detected, templateVariables, custom)
   };
 }
 
 async function performFileCopy(
   projectPath: string,
-  templateVariables: TemplateVariables
-): Promise<{ filesCreated: number; backupDir?: string | undefined }> {
-  const codexResult = await copyCodexDirectory(projectPath, templateVariables);
+  templateVariables: TemplateVariables,
+  memberVariables: WorkspaceMemberVariables[],
+  copyOptions: CopyOptions & { transaction: TransactionLog }
+): Promise<{ filesCreated: number; backupDir?: string | undefined; files: WrittenFile[] }> {
+  const codexResult = await copyCodexDirectory(
+    projectPath,
+    templateVariables,
+    undefined,
+    copyOptions
+  );
   const additionalResult = await copyAdditionalFiles(
     projectPath,
     templateVariables,
-    codexResult.backupDir
+    codexResult.backupDir,
+    copyOptions
   );
   
-  return {
-    filesCreated: codexResult.filesProcessed + additionalResult.filesProcessed,
-    backupDir: codexResult.backupDir
-  };
+  let filesCreated = codexResult.filesProcessed + additionalResult.filesProcessed;
+  let backupDir = additionalResult.backupDir;
+  const files = [...codexResult.files, ...additionalResult.files];
+  
+  for (const member of memberVariables) {
+    const memberResult = await copyAdditionalFiles(
+      projectPath,
+      member.variables,
+      backupDir,
+      { ...copyOptions, subdirectory: member.path }
+    );
+    filesCreated += memberResult.filesProcessed;
+    backupDir = memberResult.backupDir;
+    files.push(...memberResult.files);
+  }
+  
+  return { filesCreated, backupDir, files };
 }
 
-async function validateInstallation(projectPath: string): Promise<void> {
-  const criticalFiles = ['AGENTS.md'];
+async function validateInstallation(projectPath: string, outputs?: string[]): Promise<void> {
+  const criticalFiles = ['AGENTS.md'].filter(file => !outputs || outputs.includes(file));
   const missing: string[] = [];
   
   await Promise.all(
@@ -205,43 +572,78 @@ export async function init(
     silent: true
   });
   
+  const tx = new TransactionLog();
+  let runResult: Partial<InitResult> = {};
+  
   try {
     await validateSkelFiles();
     await validateTargetDirectory(projectPath);
     
-    await checkExistingFiles(projectPath);
-    const context = await detectProjectContext(projectPath);
-    const templateVariables = await getTemplateVariables(context, projectPath);
+    const run = await prepareRun(projectPath, options);
+    const { context, memberVariables, copyOptions } = run;
+    runResult = {
+      settings: run.settings,
+      ...(run.configPath ? { configPath: run.configPath } : {}),
+      context,
+      variables: run.templateVariables
+    };
+    
+    const existingFiles = await checkExistingFiles(projectPath, [
+      'AGENTS.md',
+      ...memberVariables.map(member => join(member.path, 'AGENTS.md'))
+    ]);
     
     if (dryRun) {
-      return await performDryRun(projectPath, context);
+      return { ...await performDryRun(projectPath, run), ...runResult };
+    }
+    
+    if (existingFiles.length > 0) {
+      logger.info('Merging managed regions into existing files', { files: existingFiles, mode: copyOptions.mergeMode });
     }
     
-    const { filesCreated, backupDir } = await performFileCopy(projectPath, templateVariables);
+    await tx.init();
+    const { filesCreated, backupDir, files } = await performFileCopy(
+      projectPath,
+      run.templateVariables,
+      memberVariables,
+      { ...copyOptions, transaction: tx }
+    );
     
     if (backupDir) {
       logger.info('Created backup', { dir: backupDir });
     }
     
-    await validateInstallation(projectPath);
+    await validateInstallation(projectPath, copyOptions.outputs);
+    await tx.commit();
+    
+    const manifest = backupDir ? await readBackupManifest(backupDir) : undefined;
     
     return {
       success: true,
       filesCreated,
-      message: `Successfully initialized ${filesCreated} files for ${context.projectName}`
+      message: `Successfully initialized ${filesCreated} files for ${context.projectName}`,
+      createdFiles: files.filter(file => file.status === 'created').map(file => file.path),
+      updatedFiles: files.filter(file => file.status === 'updated').map(file => file.path),
+      files,
+      ...(existingFiles.length > 0 ? { mergedFiles: existingFiles } : {}),
+      ...(backupDir ? { backupDir, backedUpFiles: manifest?.files ?? {} } : {}),
+      ...runResult
     };
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     const errorCode = error instanceof InitError ? error.code : ErrorCode.UNKNOWN_ERROR;
     
-    logger.error('Initialization failed', { error: errorMessage, code: errorCode });
+    logger.error('Initialization failed, rolling back', { error: errorMessage, code: errorCode });
+    const rollbackFailures = await tx.rollback();
     
     return {
       success: false,
       filesCreated: 0,
       message: errorMessage,
-      errorCode
+      errorCode,
+      ...(rollbackFailures.length > 0 ? { rollbackFailures } : {}),
+      ...runResult
     };
   }
 }
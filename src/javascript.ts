@@ -0,0 +1,135 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PackageManager } from './types.js';
+import { exists } from './utils.js';
+
+export type JsPackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+export type YarnVariant = 'classic' | 'berry';
+
+export interface PackageManagerDetection {
+  packageManager: JsPackageManager;
+  evidence: string;
+  version?: string;
+  variant?: YarnVariant;
+  conflicts: string[];
+}
+
+interface JsTool {
+  install: string;
+  exec: string;
+  run: (script: string, variant?: YarnVariant) => string;
+}
+
+const LOCKFILES: Array<{ file: string; manager: JsPackageManager }> = [
+  { file: 'bun.lock', manager: 'bun' },
+  { file: 'bun.lockb', manager: 'bun' },
+  { file: 'pnpm-lock.yaml', manager: 'pnpm' },
+  { file: 'yarn.lock', manager: 'yarn' },
+  { file: 'package-lock.json', manager: 'npm' },
+  { file: 'npm-shrinkwrap.json', manager: 'npm' }
+];
+
+const YARN_COMMANDS: Record<YarnVariant, Set<string>> = {
+  classic: new Set([
+    'add', 'audit', 'autoclean', 'bin', 'cache', 'check', 'config', 'create', 'exec', 'generate-lock-entry', 'global',
+    'help', 'import', 'info', 'init', 'install', 'licenses', 'link', 'list', 'login', 'logout', 'node', 'outdated',
+    'owner', 'pack', 'policies', 'publish', 'remove', 'tag', 'team', 'unlink', 'unplug', 'upgrade',
+    'upgrade-interactive', 'version', 'versions', 'why', 'workspace', 'workspaces'
+  ]),
+  berry: new Set([
+    'add', 'bin', 'cache', 'config', 'constraints', 'dedupe', 'dlx', 'exec', 'explain', 'info', 'init', 'install',
+    'link', 'node', 'npm', 'pack', 'patch', 'patch-commit', 'plugin', 'rebuild', 'remove', 'search', 'set', 'stage',
+    'unlink', 'unplug', 'up', 'upgrade-interactive', 'version', 'why', 'workspace', 'workspaces'
+  ])
+};
+
+function runYarnScript(script: string, variant: YarnVariant = 'classic'): string {
+  return YARN_COMMANDS[variant].has(script) ? `yarn run ${script}` : `yarn ${script}`;
+}
+
+const JS_TOOLS: Record<JsPackageManager, JsTool> = {
+  npm: { install: 'npm install', exec: 'npx', run: script => `npm run ${script}` },
+  pnpm: {
+    install: 'pnpm install',
+    exec: 'pnpm exec',
+    run: script => script === 'test' || script === 'start' ? `pnpm ${script}` : `pnpm run ${script}`
+  },
+  yarn: { install: 'yarn install', exec: 'yarn', run: runYarnScript },
+  bun: { install: 'bun install', exec: 'bunx', run: script => `bun run ${script}` }
+};
+
+export const JS_PACKAGE_MANAGERS = Object.keys(JS_TOOLS) as JsPackageManager[];
+
+export function isJsPackageManager(value: string): value is JsPackageManager {
+  return Object.hasOwn(JS_TOOLS, value);
+}
+
+function parsePackageManagerField(value: unknown): { manager: JsPackageManager; version: string } | undefined {
+  const match = typeof value === 'string' ? value.match(/^(npm|pnpm|yarn|bun)@([^+\s]+)/) : null;
+  return match ? { manager: match[1] as JsPackageManager, version: match[2]! } : undefined;
+}
+
+async function detectYarnVariant(projectPath: string, version?: string): Promise<YarnVariant> {
+  const major = version ? Number(version.split('.')[0]) : undefined;
+  if (major !== undefined && !Number.isNaN(major)) return major >= 2 ? 'berry' : 'classic';
+  if (await exists(join(projectPath, '.yarnrc.yml'))) return 'berry';
+  
+  const lockfile = await readFile(join(projectPath, 'yarn.lock'), 'utf-8').catch(() => '');
+  return /^__metadata:/m.test(lockfile) ? 'berry' : 'classic';
+}
+
+export async function detectJsPackageManager(projectPath: string): Promise<PackageManagerDetection | undefined> {
+  const content = await readFile(join(projectPath, 'package.json'), 'utf-8').catch(() => undefined);
+  
+  let field: { manager: JsPackageManager; version: string } | undefined;
+  try {
+    field = content === undefined ? undefined : parsePackageManagerField(JSON.parse(content).packageManager);
+  } catch {
+    field = undefined;
+  }
+  
+  const lockfiles: Array<{ file: string; manager: JsPackageManager }> = [];
+  for (const lockfile of LOCKFILES) {
+    if (await exists(join(projectPath, lockfile.file))) lockfiles.push(lockfile);
+  }
+  
+  const chosen = field?.manager ?? lockfiles[0]?.manager ?? (content === undefined ? undefined : 'npm');
+  if (!chosen) return undefined;
+  
+  const evidence = field ? `package.json "packageManager": ${field.manager}@${field.version}`
+    : lockfiles[0]?.file ?? 'package.json';
+  const variant = chosen === 'yarn' ? await detectYarnVariant(projectPath, field?.manager === 'yarn' ? field.version : undefined) : undefined;
+  
+  return {
+    packageManager: chosen,
+    evidence,
+    ...(field ? { version: field.version } : {}),
+    ...(variant ? { variant } : {}),
+    conflicts: lockfiles.filter(lockfile => lockfile.manager !== chosen).map(lockfile => lockfile.file)
+  };
+}
+
+export function getLockfileManager(file: string): JsPackageManager | undefined {
+  return LOCKFILES.find(lockfile => lockfile.file === file)?.manager;
+}
+
+export function describeConflicts(detection: PackageManagerDetection): string | undefined {
+  if (detection.conflicts.length === 0) return undefined;
+  
+  return `Conflicting lockfiles: using ${detection.packageManager} (from ${detection.evidence}) ` +
+    `but also found ${detection.conflicts.join(', ')}. Delete stale lockfiles or set "packageManager" in package.json.`;
+}
+
+export function getInstallCommand(packageManager: PackageManager): string | undefined {
+  return isJsPackageManager(packageManager) ? JS_TOOLS[packageManager].install : undefined;
+}
+
+export function getExecCommand(packageManager: PackageManager): string {
+  return isJsPackageManager(packageManager) ? JS_TOOLS[packageManager].exec : 'npx';
+}
+
+export function getRunScriptCommand(packageManager: PackageManager, script: string, variant?: YarnVariant): string {
+  return isJsPackageManager(packageManager)
+    ? JS_TOOLS[packageManager].run(script, variant)
+    : `${packageManager} run ${script}`;
+}
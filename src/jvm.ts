@@ -0,0 +1,90 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { exists } from './utils.js';
+
+export type JvmBuildTool = 'maven' | 'gradle';
+
+export interface JvmCommands {
+  install?: string;
+  dev?: string;
+  build: string;
+  test: string;
+}
+
+const BUILD_TASKS: Record<JvmBuildTool, { install?: string; build: string; test: string }> = {
+  maven: { install: 'install -DskipTests', build: 'package', test: 'test' },
+  gradle: { build: 'build', test: 'test' }
+};
+
+interface FrameworkTasks {
+  maven?: string;
+  gradle?: string;
+  build?: string;
+}
+
+const GRADLE_FILES = ['build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'];
+const GRADLE_EXTRA_FILES = ['gradle/libs.versions.toml', 'app/build.gradle', 'app/build.gradle.kts'];
+
+const FRAMEWORKS: Array<{ markers: RegExp; framework: string; gradleOnly?: boolean }> = [
+  { markers: /com\.android\.(application|library)|com\.android\.tools\.build:gradle/, framework: 'Android', gradleOnly: true },
+  { markers: /org\.springframework\.boot|spring-boot-starter/, framework: 'Spring Boot' },
+  { markers: /io\.quarkus/, framework: 'Quarkus' },
+  { markers: /io\.micronaut/, framework: 'Micronaut' },
+  { markers: /io\.ktor/, framework: 'Ktor' }
+];
+
+const FRAMEWORK_TASKS: Record<string, FrameworkTasks> = {
+  'Spring Boot': { maven: 'spring-boot:run', gradle: 'bootRun' },
+  Quarkus: { maven: 'quarkus:dev', gradle: 'quarkusDev' },
+  Micronaut: { maven: 'mn:run', gradle: 'run' },
+  Ktor: { maven: 'exec:java', gradle: 'run' },
+  Android: { gradle: 'installDebug', build: 'assembleDebug' }
+};
+
+async function readText(path: string): Promise<string | undefined> {
+  return readFile(path, 'utf-8').catch(() => undefined);
+}
+
+export async function detectJvmBuildTool(projectPath: string): Promise<JvmBuildTool | undefined> {
+  for (const file of GRADLE_FILES) {
+    if (await exists(join(projectPath, file))) return 'gradle';
+  }
+  return await exists(join(projectPath, 'pom.xml')) ? 'maven' : undefined;
+}
+
+export async function getJvmLauncher(projectPath: string, tool: JvmBuildTool): Promise<string> {
+  const wrapper = tool === 'gradle' ? 'gradlew' : 'mvnw';
+  if (await exists(join(projectPath, wrapper))) return `./${wrapper}`;
+  return tool === 'gradle' ? 'gradle' : 'mvn';
+}
+
+export async function readBuildScripts(projectPath: string, tool: JvmBuildTool): Promise<string> {
+  const files = tool === 'maven' ? ['pom.xml'] : [...GRADLE_FILES, ...GRADLE_EXTRA_FILES];
+  const contents = await Promise.all(files.map(file => readText(join(projectPath, file))));
+  return contents.filter((content): content is string => content !== undefined).join('\n');
+}
+
+export async function detectJvmFramework(projectPath: string): Promise<string | undefined> {
+  const tool = await detectJvmBuildTool(projectPath);
+  if (!tool) return undefined;
+  
+  const build = await readBuildScripts(projectPath, tool);
+  return FRAMEWORKS.find(({ markers, gradleOnly }) => (!gradleOnly || tool === 'gradle') && markers.test(build))?.framework;
+}
+
+export async function getJvmCommands(projectPath: string, framework: string): Promise<JvmCommands | undefined> {
+  const tool = await detectJvmBuildTool(projectPath);
+  if (!tool) return undefined;
+  
+  const launcher = await getJvmLauncher(projectPath, tool);
+  const defaults = BUILD_TASKS[tool];
+  const tasks = FRAMEWORK_TASKS[framework] ?? {};
+  const dev = tasks[tool];
+  
+  return {
+    ...(defaults.install ? { install: `${launcher} ${defaults.install}` } : {}),
+    ...(dev ? { dev: `${launcher} ${dev}` } : {}),
+    build: `${launcher} ${tasks.build ?? defaults.build}`,
+    test: `${launcher} ${defaults.test}`
+  };
+}
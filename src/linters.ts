@@ -0,0 +1,138 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PackageManager, Runtime } from './types.js';
+import { readPythonProject, getPythonRunPrefix, isPythonPackageManager } from './python.js';
+import { detectJvmBuildTool, getJvmLauncher, readBuildScripts } from './jvm.js';
+import { getTomlValue } from './toml.js';
+import { getExecCommand } from './javascript.js';
+import { exists } from './utils.js';
+
+export interface QualityCommands {
+  lint?: string;
+  format?: string;
+  typecheck?: string;
+}
+
+const ESLINT_CONFIGS = [
+  'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+  '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml'
+];
+const PRETTIER_CONFIGS = [
+  '.prettierrc', '.prettierrc.json', '.prettierrc.yml', '.prettierrc.yaml', '.prettierrc.js', '.prettierrc.cjs',
+  '.prettierrc.mjs', '.prettierrc.toml', 'prettier.config.js', 'prettier.config.cjs', 'prettier.config.mjs'
+];
+const BIOME_CONFIGS = ['biome.json', 'biome.jsonc'];
+const TSCONFIGS = ['tsconfig.json'];
+const GOLANGCI_CONFIGS = ['.golangci.yml', '.golangci.yaml', '.golangci.toml', '.golangci.json'];
+
+const SCRIPT_NAMES: Record<keyof QualityCommands, string[]> = {
+  lint: ['lint'],
+  format: ['format', 'fmt'],
+  typecheck: ['typecheck', 'type-check', 'check-types', 'types', 'tsc']
+};
+
+async function hasAny(projectPath: string, files: string[]): Promise<boolean> {
+  for (const file of files) {
+    if (await exists(join(projectPath, file))) return true;
+  }
+  return false;
+}
+
+async function getJsCommands(
+  projectPath: string,
+  packageManager: PackageManager,
+  runScript: (script: string) => string
+): Promise<QualityCommands> {
+  const content = await readFile(join(projectPath, 'package.json'), 'utf-8').catch(() => undefined);
+  if (content === undefined) return {};
+  
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    return {};
+  }
+  
+  const exec = getExecCommand(packageManager);
+  const biome = await hasAny(projectPath, BIOME_CONFIGS);
+  const eslint = 'eslintConfig' in pkg || await hasAny(projectPath, ESLINT_CONFIGS);
+  const prettier = 'prettier' in pkg || await hasAny(projectPath, PRETTIER_CONFIGS);
+  const typescript = await hasAny(projectPath, TSCONFIGS);
+  
+  const detected: QualityCommands = {
+    ...(biome ? { lint: `${exec} biome lint .`, format: `${exec} biome format --write .` } : {}),
+    ...(eslint ? { lint: `${exec} eslint .` } : {}),
+    ...(prettier ? { format: `${exec} prettier --write .` } : {}),
+    ...(typescript ? { typecheck: `${exec} tsc --noEmit` } : {})
+  };
+  
+  const scripts = typeof pkg['scripts'] === 'object' && pkg['scripts'] ? pkg['scripts'] as Record<string, unknown> : {};
+  for (const [role, names] of Object.entries(SCRIPT_NAMES) as Array<[keyof QualityCommands, string[]]>) {
+    const script = names.find(name => typeof scripts[name] === 'string');
+    if (script) detected[role] = runScript(script);
+  }
+  
+  return detected;
+}
+
+async function getPythonQualityCommands(projectPath: string, packageManager: PackageManager): Promise<QualityCommands> {
+  const project = await readPythonProject(projectPath);
+  if (!project) return {};
+  
+  const run = isPythonPackageManager(packageManager) ? getPythonRunPrefix(packageManager) : '';
+  const uses = (tool: string) =>
+    project.dependencies.has(tool) || getTomlValue(project.manifest, `tool.${tool}`) !== undefined;
+  
+  const ruff = uses('ruff') || await hasAny(projectPath, ['ruff.toml', '.ruff.toml']);
+  const black = uses('black');
+  const mypy = uses('mypy') || await hasAny(projectPath, ['mypy.ini', '.mypy.ini']);
+  const pyright = uses('pyright') || await hasAny(projectPath, ['pyrightconfig.json']);
+  
+  return {
+    ...(ruff ? { lint: `${run}ruff check .` } : {}),
+    ...(black ? { format: `${run}black .` } : ruff ? { format: `${run}ruff format .` } : {}),
+    ...(mypy ? { typecheck: `${run}mypy .` } : pyright ? { typecheck: `${run}pyright` } : {})
+  };
+}
+
+async function getJvmQualityCommands(projectPath: string): Promise<QualityCommands> {
+  const tool = await detectJvmBuildTool(projectPath);
+  if (!tool) return {};
+  
+  const launcher = await getJvmLauncher(projectPath, tool);
+  const build = await readBuildScripts(projectPath, tool);
+  const spotless = /spotless/.test(build);
+  const checkstyle = /checkstyle/.test(build);
+  const gradle = tool === 'gradle';
+  
+  return {
+    ...(spotless ? {
+      lint: `${launcher} ${gradle ? 'spotlessCheck' : 'spotless:check'}`,
+      format: `${launcher} ${gradle ? 'spotlessApply' : 'spotless:apply'}`
+    } : {}),
+    ...(checkstyle ? { lint: `${launcher} ${gradle ? 'checkstyleMain' : 'checkstyle:check'}` } : {})
+  };
+}
+
+export async function detectQualityCommands(
+  projectPath: string,
+  runtime: Runtime,
+  packageManager: PackageManager,
+  runScript: (script: string) => string
+): Promise<QualityCommands> {
+  switch (runtime) {
+    case 'rust':
+      return { lint: 'cargo clippy', format: 'cargo fmt', typecheck: 'cargo check' };
+    case 'go':
+      return {
+        lint: await hasAny(projectPath, GOLANGCI_CONFIGS) ? 'golangci-lint run' : 'go vet ./...',
+        format: 'gofmt -w .'
+      };
+    case 'python':
+      return getPythonQualityCommands(projectPath, packageManager);
+    case 'java':
+      return getJvmQualityCommands(projectPath);
+    default:
+      return getJsCommands(projectPath, packageManager, runScript);
+  }
+}
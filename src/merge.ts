@@ -0,0 +1,248 @@
+import { extname, basename } from 'node:path';
+import { parseToml, type TomlTable } from './toml.js';
+
+export type MergeMode = 'append' | 'adopt';
+
+interface CommentStyle {
+  open: string;
+  close: string;
+}
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+interface TomlTableBlock {
+  name: string;
+  lines: string[];
+}
+
+const MARKER_PREFIX = 'create-codex';
+const DEFAULT_REGION = 'main';
+const TOML_TABLES_REGION = 'tables';
+
+const HTML_COMMENT: CommentStyle = { open: '<!--', close: '-->' };
+const HASH_COMMENT: CommentStyle = { open: '#', close: '' };
+
+const COMMENT_STYLES: Record<string, CommentStyle> = {
+  '.md': HTML_COMMENT,
+  '.mdc': HTML_COMMENT,
+  '.markdown': HTML_COMMENT,
+  '.toml': HASH_COMMENT,
+  '.yml': HASH_COMMENT,
+  '.yaml': HASH_COMMENT,
+  '.sh': HASH_COMMENT,
+  '.py': HASH_COMMENT
+};
+
+const FILE_COMMENT_STYLES: Record<string, CommentStyle> = {
+  '.windsurfrules': HTML_COMMENT
+};
+
+function getCommentStyle(filePath: string): CommentStyle | undefined {
+  return FILE_COMMENT_STYLES[basename(filePath).toLowerCase()] ?? COMMENT_STYLES[extname(filePath).toLowerCase()];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function markerLine(style: CommentStyle, kind: 'begin' | 'end', id: string): string {
+  const close = style.close ? ` ${style.close}` : '';
+  return `${style.open} ${MARKER_PREFIX}:${kind} ${id}${close}`;
+}
+
+function markerPattern(style: CommentStyle): RegExp {
+  const close = style.close ? `\\s*${escapeRegExp(style.close)}` : '';
+  return new RegExp(
+    `^\\s*${escapeRegExp(style.open)}\\s*${MARKER_PREFIX}:(begin|end)\\s+([\\w.-]+)${close}\\s*$`
+  );
+}
+
+function malformed(filePath: string, detail: string): Error {
+  return new Error(
+    `MALFORMED MARKERS: ${basename(filePath)}\n` +
+    `Problem: ${detail}\n` +
+    `Action: Fix or remove the ${MARKER_PREFIX} marker comments and retry`
+  );
+}
+
+function findRegions(lines: string[], style: CommentStyle, filePath: string): Map<string, Region> {
+  const pattern = markerPattern(style);
+  const regions = new Map<string, Region>();
+  let open: { id: string; start: number } | undefined;
+  
+  lines.forEach((line, index) => {
+    const match = line.match(pattern);
+    if (!match) return;
+    
+    const [, kind, id = ''] = match;
+    if (kind === 'begin') {
+      if (open) throw malformed(filePath, `region '${open.id}' is not closed before '${id}'`);
+      if (regions.has(id)) throw malformed(filePath, `region '${id}' appears more than once`);
+      open = { id, start: index };
+      return;
+    }
+    
+    if (!open || open.id !== id) throw malformed(filePath, `unexpected end of region '${id}'`);
+    regions.set(id, { start: open.start, end: index });
+    open = undefined;
+  });
+  
+  if (open) throw malformed(filePath, `region '${open.id}' is never closed`);
+  return regions;
+}
+
+function wrapRegion(style: CommentStyle, id: string, body: string): string {
+  return [markerLine(style, 'begin', id), body, markerLine(style, 'end', id)].join('\n') + '\n';
+}
+
+export function wrapManagedContent(content: string, filePath: string): string {
+  const style = getCommentStyle(filePath);
+  if (!style) return content;
+  
+  const lines = content.split('\n');
+  if (findRegions(lines, style, filePath).size > 0) return content;
+  
+  return wrapRegion(style, DEFAULT_REGION, content.replace(/\n+$/, ''));
+}
+
+export function hasManagedRegions(content: string, filePath: string): boolean {
+  const style = getCommentStyle(filePath);
+  if (!style) return false;
+  
+  return findRegions(content.split('\n'), style, filePath).size > 0;
+}
+
+export function removeManagedContent(content: string, filePath: string): string {
+  const style = getCommentStyle(filePath);
+  if (!style) return content;
+  
+  const lines = content.split('\n');
+  const regions = [...findRegions(lines, style, filePath).values()];
+  return lines.filter((_, index) => !regions.some(region => index >= region.start && index <= region.end)).join('\n');
+}
+
+function splitTomlTables(content: string): { root: string[]; tables: TomlTableBlock[] } {
+  const root: string[] = [];
+  const tables: TomlTableBlock[] = [];
+  
+  for (const line of content.replace(/\n+$/, '').split('\n')) {
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      tables.push({ name: header[1]!, lines: [line] });
+    } else {
+      (tables[tables.length - 1]?.lines ?? root).push(line);
+    }
+  }
+  
+  return { root, tables };
+}
+
+function dropDefinedKeys(lines: string[], defined: TomlTable): string[] {
+  const kept: string[] = [];
+  let skipping = false;
+  
+  for (const line of lines) {
+    const key = line.match(/^([A-Za-z0-9_-]+|"[^"]*")\s*=/)?.[1];
+    if (key !== undefined) {
+      skipping = Object.hasOwn(defined, key.replace(/^"|"$/g, ''));
+    } else if (!/^[\s\]]/.test(line)) {
+      skipping = false;
+    }
+    if (!skipping) kept.push(line);
+  }
+  
+  return kept;
+}
+
+function isTableDefined(defined: TomlTable, name: string): boolean {
+  let current: TomlTable | undefined = defined;
+  for (const key of name.split('.').map(part => part.trim().replace(/^"|"$/g, ''))) {
+    const value: TomlTable[string] | undefined = current && Object.hasOwn(current, key) ? current[key] : undefined;
+    if (value === undefined) return false;
+    current = typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  }
+  return true;
+}
+
+function mergeTomlContent(existing: string, generated: string, filePath: string, mode: MergeMode): string {
+  const style = HASH_COMMENT;
+  const wrapped = wrapManagedContent(generated, filePath);
+  const hasRegions = findRegions(existing.split('\n'), style, filePath).size > 0;
+  if (!hasRegions && mode === 'adopt') return wrapped;
+  
+  const own = removeManagedContent(existing, filePath).trim();
+  if (!own) return wrapped;
+  
+  let defined: TomlTable;
+  try {
+    defined = parseToml(own);
+  } catch (error) {
+    throw new Error(
+      `INVALID TOML: ${basename(filePath)}\n` +
+      `Problem: ${error instanceof Error ? error.message : String(error)}\n` +
+      `Action: Fix the file, or re-run with --merge adopt to replace it`
+    );
+  }
+  
+  const { root, tables } = splitTomlTables(generated);
+  const missingTables = tables.filter(table => !isTableDefined(defined, table.name));
+  const blocks = [wrapRegion(style, DEFAULT_REGION, dropDefinedKeys(root, defined).join('\n').trim()), `${own}\n`];
+  if (missingTables.length > 0) {
+    blocks.push(wrapRegion(style, TOML_TABLES_REGION, missingTables.flatMap(table => table.lines).join('\n').trim()));
+  }
+  
+  return blocks.join('\n');
+}
+
+export function mergeManagedContent(
+  existing: string,
+  generated: string,
+  filePath: string,
+  mode: MergeMode = 'append'
+): string {
+  const style = getCommentStyle(filePath);
+  if (!style) return generated;
+  if (extname(filePath).toLowerCase() === '.toml' && !hasManagedRegions(generated, filePath)) {
+    return mergeTomlContent(existing, generated, filePath, mode);
+  }
+  
+  const wrapped = wrapManagedContent(generated, filePath);
+  const generatedLines = wrapped.split('\n');
+  const generatedRegions = findRegions(generatedLines, style, filePath);
+  
+  const existingLines = existing.split('\n');
+  const existingRegions = findRegions(existingLines, style, filePath);
+  
+  if (existingRegions.size === 0) {
+    if (mode === 'adopt' || existing.trim() === '') return wrapped;
+    return `${existing.replace(/\s+$/, '')}\n\n${wrapped}`;
+  }
+  
+  const blockFor = (id: string, region: Region, lines: string[]): string[] => {
+    const replacement = generatedRegions.get(id);
+    if (!replacement) return lines.slice(region.start, region.end + 1);
+    return generatedLines.slice(replacement.start, replacement.end + 1);
+  };
+  
+  const output: string[] = [];
+  let cursor = 0;
+  
+  for (const [id, region] of existingRegions) {
+    output.push(...existingLines.slice(cursor, region.start));
+    output.push(...blockFor(id, region, existingLines));
+    cursor = region.end + 1;
+  }
+  output.push(...existingLines.slice(cursor));
+  
+  const missing = [...generatedRegions]
+    .filter(([id]) => !existingRegions.has(id))
+    .map(([, region]) => generatedLines.slice(region.start, region.end + 1).join('\n'));
+  
+  const merged = output.join('\n');
+  if (missing.length === 0) return merged;
+  
+  return `${merged.replace(/\s+$/, '')}\n\n${missing.join('\n\n')}\n`;
+}
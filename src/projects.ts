@@ -1,16 +1,94 @@
 import { readFile } from 'node:fs/promises';
 import { join, basename } from 'node:path';
-import type { ProjectContext, TemplateVariables } from './types.js';
+import type {
+  Evidence,
+  PackageManager,
+  ProjectContext,
+  Runtime,
+  TemplateVariables,
+  TemplateListItem,
+  WorkspaceInfo,
+  WorkspaceMember,
+  WorkspaceMemberVariables,
+  WorkspaceTool,
+  Orchestrator
+} from './types.js';
 import { detectPackageManager, detectRuntime, detectFramework, exists } from './utils.js';
+import { detectWorkspaces } from './workspaces.js';
+import { detectStacks, isJsRuntime } from './stacks.js';
+import { detectJsPackageManager, describeConflicts, getInstallCommand, getRunScriptCommand } from './javascript.js';
+import { getPythonCommands, isPythonPackageManager } from './python.js';
+import { parseToml, getTomlString } from './toml.js';
+import { getRustCommands } from './rust.js';
+import { getGoCommands } from './go.js';
+import { getJvmCommands } from './jvm.js';
+import { getNativeCommands } from './cpp.js';
+import { explainTaskRunnerCommands } from './tasks.js';
+import { detectCiCommands, explainCiCommands, type CiCommand } from './ci.js';
+import { detectTestRunner, detectTestFilePatterns } from './testing.js';
+import { renderProjectStructure } from './structure.js';
+import { detectQualityCommands } from './linters.js';
 import { executeQuiet } from './exec.js';
 import { withRetry } from './atomic.js';
 import { logger } from './logger.js';
+import { COMMAND_VARIABLES } from './config.js';
 import { mapWithLimit } from './concurrency.js';
 
-async function detectPurpose(projectPath: string): Promise<string | undefined> {
+const WORKSPACE_LIST_BUDGET = 3500;
+const JS_WORKSPACE_TOOLS: WorkspaceTool[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+const WORKSPACE_TOOL_NAMES: Record<WorkspaceTool, string> = {
+  npm: 'npm workspaces',
+  pnpm: 'pnpm workspaces',
+  yarn: 'Yarn workspaces',
+  bun: 'Bun workspaces',
+  cargo: 'Cargo workspace',
+  go: 'Go workspace (go.work)',
+  uv: 'uv workspace'
+};
+
+const ORCHESTRATOR_NAMES: Record<Orchestrator, string> = {
+  turborepo: 'Turborepo',
+  nx: 'Nx',
+  none: 'None'
+};
+
+const TEST_RECIPE_VARIABLES = [
+  'TEST_RUNNER',
+  'TEST_FILE_COMMAND',
+  'TEST_NAME_COMMAND',
+  'TEST_WATCH_COMMAND',
+  'TEST_COVERAGE_COMMAND'
+];
+
+const ENV_EXAMPLE_FILES = ['.env.example', '.env.sample', '.env.template'];
+
+const GIT_COMMANDS = {
+  remoteUrl: 'git config --get remote.origin.url',
+  userName: 'git config user.name',
+  userEmail: 'git config user.email',
+  branch: 'git rev-parse --abbrev-ref HEAD'
+};
+
+type ScriptRunner = (script: string) => string;
+
+interface ProjectCommands {
+  install?: string;
+  dev?: string;
+  build?: string;
+  test?: string;
+  lint?: string;
+  format?: string;
+  typecheck?: string;
+}
+
+type ExplainedCommands = Partial<Record<keyof ProjectCommands, Evidence>>;
+
+async function detectPurpose(projectPath: string): Promise<Evidence | undefined> {
   const checks = [
     {
       path: 'package.json',
+      source: 'package.json description',
       parser: (content: string) => {
         try {
           const pkg = JSON.parse(content);
@@ -22,20 +100,20 @@ async function detectPurpose(projectPath: string): Promise<string | undefined> {
     },
     {
       path: 'Cargo.toml',
-      parser: (content: string) => {
-        const match = content.match(/description\s*=\s*"([^"]+)"/);
-        return match?.[1];
-      }
+      source: 'Cargo.toml package.description',
+      parser: (content: string) => getTomlString(parseToml(content), 'package.description')
     },
     {
       path: 'pyproject.toml',
+      source: 'pyproject.toml description',
       parser: (content: string) => {
-        const match = content.match(/description\s*=\s*"([^"]+)"/);
-        return match?.[1];
+        const manifest = parseToml(content);
+        return getTomlString(manifest, 'project.description') ?? getTomlString(manifest, 'tool.poetry.description');
       }
     },
     {
       path: 'README.md',
+      source: 'first paragraph of README.md',
       parser: (content: string) => {
         const lines = content.split('\n');
         const descLine = lines.find(line => 
@@ -45,7 +123,7 @@ async function detectPurpose(projectPath: string): Promise<string | undefined> {
       }
     }
   ];
-
+  
   for (const check of checks) {
     const filePath = join(projectPath, check.path);
     if (await exists(filePath)) {
@@ -58,7 +136,7 @@ async function detectPurpose(projectPath: string): Promise<string | undefined> {
         
         const purpose = check.parser(content);
         if (purpose && typeof purpose === 'string' && purpose.trim()) {
-          return purpose.trim();
+          return { value: purpose.trim(), source: check.source };
         }
       } catch (error) {
         logger.debug(`Failed to read ${check.path}`, { 
@@ -67,7 +145,7 @@ async function detectPurpose(projectPath: string): Promise<string | undefined> {
       }
     }
   }
-
+  
   return undefined;
 }
 
@@ -77,14 +155,7 @@ async function getGitInfo(projectPath: string): Promise<{
   userEmail?: string | undefined;
   branch?: string | undefined;
 }> {
-  const gitCommands = [
-    'git config --get remote.origin.url',
-    'git config user.name',
-    'git config user.email',
-    'git rev-parse --abbrev-ref HEAD'
-  ];
-  
-  const results = await mapWithLimit(gitCommands, 2, cmd =>
+  const results = await mapWithLimit(Object.values(GIT_COMMANDS), 2, cmd =>
     executeQuiet(cmd, { cwd: projectPath, timeout: 5000 })
   );
   
@@ -103,18 +174,27 @@ export async function detectProjectContext(projectPath: string): Promise<Project
   
   const [
     hasGit,
-    packageManager,
-    runtime,
+    jsPackageManager,
+    detectedRuntime,
     hasCodexDir,
-    framework
+    detectedFramework,
+    workspace
   ] = await Promise.all([
     exists(join(projectPath, '.git')),
-    detectPackageManager(projectPath),
+    detectJsPackageManager(projectPath),
     detectRuntime(projectPath),
     exists(join(projectPath, '.codex')),
-    detectFramework(projectPath)
+    detectFramework(projectPath),
+    detectWorkspaces(projectPath)
   ]);
-
+  
+  const stacks = await detectStacks(projectPath, workspace?.members.map(member => member.path) ?? []);
+  const primary = stacks.find(stack => stack.path === '.');
+  const runtime = primary?.runtime ?? detectedRuntime;
+  const framework = primary?.framework ?? detectedFramework;
+  const packageManager = primary?.packageManager ??
+    jsPackageManager?.packageManager ?? await detectPackageManager(projectPath);
+  const conflicts = jsPackageManager && describeConflicts(jsPackageManager);
   const projectName = basename(projectPath);
   const gitInfo = hasGit ? await getGitInfo(projectPath) : {};
   
@@ -125,7 +205,11 @@ export async function detectProjectContext(projectPath: string): Promise<Project
     hasCodexDir,
     projectName,
     framework,
-    ...(gitInfo.remoteUrl ? { gitRemoteUrl: gitInfo.remoteUrl } : {})
+    ...(jsPackageManager?.variant ? { yarnVariant: jsPackageManager.variant } : {}),
+    ...(gitInfo.remoteUrl ? { gitRemoteUrl: gitInfo.remoteUrl } : {}),
+    ...(workspace ? { workspace } : {}),
+    ...(stacks.length > 0 ? { stacks } : {}),
+    ...(conflicts ? { warnings: [conflicts] } : {})
   };
   
   logger.debug('Project context detected', { 
@@ -180,47 +264,160 @@ function formatRuntime(runtime: string): string {
   return runtimeNames[runtime] || runtime.charAt(0).toUpperCase() + runtime.slice(1);
 }
 
-async function getProjectCommands(
+function getScriptPackageManager(context: ProjectContext): PackageManager {
+  if (isJsRuntime(context.runtime)) return context.packageManager;
+  return context.stacks?.find(stack => stack.path === '.' && isJsRuntime(stack.runtime))?.packageManager ?? 'npm';
+}
+
+function createScriptRunner(context: ProjectContext): ScriptRunner {
+  const orchestrator = context.workspaceMember?.orchestrator ?? 'none';
+  
+  if (orchestrator === 'turborepo') {
+    return script => `turbo run ${script} --filter=${context.projectName}`;
+  }
+  if (orchestrator === 'nx') {
+    return script => `nx ${script} ${context.projectName}`;
+  }
+  const packageManager = getScriptPackageManager(context);
+  return script => getRunScriptCommand(packageManager, script, context.yarnVariant);
+}
+
+const RUNTIME_COMMAND_SOURCES: Partial<Record<Runtime, string>> = {
+  rust: 'Cargo.toml',
+  go: 'go.mod',
+  java: 'Maven or Gradle build files',
+  'c/c++': 'CMakeLists.txt, meson.build or Makefile'
+};
+
+async function explainProjectCommands(
   projectPath: string,
-  packageManager: string
-): Promise<{ install?: string; dev?: string; build?: string; test?: string }> {
-  const commands: { install?: string; dev?: string; build?: string; test?: string } = {};
+  context: ProjectContext,
+  runScript: ScriptRunner,
+  scoped = false,
+  ciCommands: CiCommand[] = []
+): Promise<ExplainedCommands> {
+  const commands: ExplainedCommands = {};
+  const { packageManager } = context;
+  const scripted = new Set<string>();
+  const record = (found: ProjectCommands | undefined, source: (key: string) => string) => {
+    for (const [key, value] of Object.entries(found ?? {})) {
+      if (value && !scripted.has(key)) commands[key as keyof ProjectCommands] = { value, source: source(key) };
+    }
+  };
   
   const packageJsonPath = join(projectPath, 'package.json');
-  if (await exists(packageJsonPath)) {
+  if ((!scoped || isJsRuntime(context.runtime)) && await exists(packageJsonPath)) {
     try {
       const content = await readFile(packageJsonPath, 'utf-8');
       const pkg = JSON.parse(content);
       
-      if (packageManager !== 'none') {
-        const installCmd = packageManager === 'npm' ? 'npm install' : 
-                          packageManager === 'yarn' ? 'yarn install' :
-                          packageManager === 'pnpm' ? 'pnpm install' :
-                          packageManager === 'bun' ? 'bun install' : undefined;
-        if (installCmd) commands.install = installCmd;
-      }
+      const jsPackageManager = getScriptPackageManager(context);
+      const installCmd = getInstallCommand(jsPackageManager);
+      if (installCmd) commands.install = { value: installCmd, source: `package.json (${jsPackageManager})` };
       
       if (pkg.scripts) {
-        if (pkg.scripts.dev) commands.dev = `${packageManager} run dev`;
-        else if (pkg.scripts.start) commands.dev = `${packageManager} run start`;
+        const script = (role: keyof ProjectCommands, name: string) => {
+          commands[role] = { value: runScript(name), source: `package.json scripts.${name}` };
+          scripted.add(role);
+        };
+        if (pkg.scripts.dev) script('dev', 'dev');
+        else if (pkg.scripts.start) script('dev', 'start');
         
-        if (pkg.scripts.build) commands.build = `${packageManager} run build`;
-        if (pkg.scripts.test) commands.test = `${packageManager} run test`;
+        if (pkg.scripts.build) script('build', 'build');
+        if (pkg.scripts.test) script('test', 'test');
+      }
+      if (!commands.test && jsPackageManager === 'bun') {
+        commands.test = { value: 'bun test', source: 'Bun built-in test runner' };
       }
     } catch (error) {
       logger.debug('Failed to parse package.json for commands', { error });
     }
   }
   
-  if (packageManager === 'pip' || packageManager === 'poetry' || packageManager === 'uv') {
-    const pythonInstall = packageManager === 'pip' ? 'pip install -r requirements.txt' :
-                         packageManager === 'poetry' ? 'poetry install' :
-                         packageManager === 'uv' ? 'uv pip install -r requirements.txt' : undefined;
-    if (pythonInstall) commands.install = pythonInstall;
-    commands.test = 'pytest';
+  if (isPythonPackageManager(packageManager)) {
+    record(await getPythonCommands(projectPath, packageManager, context.framework), () => `Python project (${packageManager})`);
+  }
+  
+  const runtimeCommands =
+    context.runtime === 'rust' ? await getRustCommands(projectPath, context.framework) :
+    context.runtime === 'go' ? await getGoCommands(projectPath, context.framework) :
+    context.runtime === 'java' ? await getJvmCommands(projectPath, context.framework) :
+    context.runtime === 'c/c++' ? await getNativeCommands(projectPath) :
+    undefined;
+  record(runtimeCommands, () => RUNTIME_COMMAND_SOURCES[context.runtime] ?? context.runtime);
+  record(
+    await detectQualityCommands(projectPath, context.runtime, packageManager, runScript),
+    key => `${key} script or tool configuration`
+  );
+  
+  const explained = scoped ? { ...commands } : { ...commands, ...await explainTaskRunnerCommands(projectPath) };
+  for (const [role, evidence] of Object.entries(explainCiCommands(ciCommands))) {
+    if (!commands[role as keyof ProjectCommands]) explained[role as keyof ProjectCommands] = evidence;
+  }
+  return explained;
+}
+
+async function getStackItems(context: ProjectContext, projectPath: string): Promise<TemplateListItem[]> {
+  const items: TemplateListItem[] = [];
+  
+  for (const stack of context.stacks ?? []) {
+    const stackPath = stack.path === '.' ? projectPath : join(projectPath, stack.path);
+    const stackContext: ProjectContext = {
+      hasGit: context.hasGit,
+      packageManager: stack.packageManager,
+      ...(stack.packageManager === 'yarn' && context.yarnVariant ? { yarnVariant: context.yarnVariant } : {}),
+      runtime: stack.runtime,
+      hasCodexDir: false,
+      projectName: stack.path === '.' ? context.projectName : basename(stack.path),
+      framework: stack.framework
+    };
+    const commands = {
+      ...await explainProjectCommands(stackPath, stackContext, createScriptRunner(stackContext), true),
+      ...stack.path === '.' ? {} : await explainTaskRunnerCommands(stackPath)
+    };
+    
+    items.push({
+      name: formatRuntime(stack.runtime),
+      path: stack.path === '.' ? './' : `${stack.path}/`,
+      ...(stack.framework !== 'None' ? { framework: stack.framework } : {}),
+      ...(stack.packageManager !== 'none' ? { packageManager: stack.packageManager } : {}),
+      ...Object.fromEntries(Object.entries(commands).map(([key, evidence]) => [key, evidence.value]))
+    });
+  }
+  
+  return items;
+}
+
+async function getProjectScripts(
+  projectPath: string,
+  runScript: ScriptRunner
+): Promise<TemplateListItem[]> {
+  try {
+    const content = await readFile(join(projectPath, 'package.json'), 'utf-8');
+    const scripts = JSON.parse(content).scripts;
+    if (!scripts || typeof scripts !== 'object') return [];
+    
+    return Object.keys(scripts)
+      .filter(name => typeof scripts[name] === 'string')
+      .map(name => ({ name, command: runScript(name) }));
+  } catch {
+    return [];
+  }
+}
+
+async function getEnvVarNames(projectPath: string): Promise<TemplateListItem[]> {
+  for (const file of ENV_EXAMPLE_FILES) {
+    const content = await readFile(join(projectPath, file), 'utf-8').catch(() => undefined);
+    if (content === undefined) continue;
+    
+    const names = content
+      .split('\n')
+      .map(line => line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1])
+      .filter((name): name is string => Boolean(name));
+    return [...new Set(names)];
   }
   
-  return commands;
+  return [];
 }
 
 async function getProjectImports(
@@ -264,10 +461,10 @@ async function getProjectImports(
       { file: 'meson.build', text: '@meson.build for Meson configuration' }
     ]
   };
-
+  
   const configs = importMappings[runtime];
   if (!configs) return undefined;
-
+  
   const foundImports: string[] = [];
   for (const config of configs) {
     const filePath = join(projectPath, config.file);
@@ -275,7 +472,7 @@ async function getProjectImports(
       foundImports.push(config.text);
     }
   }
-
+  
   if (foundImports.length === 0) return undefined;
   if (foundImports.length === 1) return foundImports[0];
   
@@ -283,22 +480,118 @@ async function getProjectImports(
   return foundImports.join(', ') + ' and ' + lastImport;
 }
 
-export async function getTemplateVariables(
+function formatWorkspacePackages(workspace: WorkspaceInfo): string {
+  const lines: string[] = [];
+  let length = 0;
+  
+  for (const [index, member] of workspace.members.entries()) {
+    const details = [
+      formatRuntime(member.runtime),
+      ...(member.framework !== 'None' ? [member.framework] : [])
+    ].join(', ');
+    const line = `- \`${member.path}\` (${member.name}): ${details}`;
+    
+    if (length + line.length > WORKSPACE_LIST_BUDGET) {
+      lines.push(`- ...and ${workspace.members.length - index} more`);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+  
+  return lines.join('\n');
+}
+
+function getWorkspaceVariables(workspace: WorkspaceInfo): Partial<TemplateVariables> {
+  return {
+    IS_MONOREPO: true,
+    WORKSPACE_TOOL: workspace.tools.map(tool => WORKSPACE_TOOL_NAMES[tool]).join(', '),
+    WORKSPACE_PACKAGES: formatWorkspacePackages(workspace),
+    WORKSPACES: workspace.members.map(member => ({
+      name: member.name,
+      path: member.path,
+      runtime: formatRuntime(member.runtime),
+      framework: member.framework
+    })),
+    ...(workspace.orchestrator !== 'none' ? { MONOREPO_TOOL: ORCHESTRATOR_NAMES[workspace.orchestrator] } : {})
+  };
+}
+
+async function detectMemberContext(
+  root: ProjectContext,
+  member: WorkspaceMember,
+  memberPath: string
+): Promise<ProjectContext> {
+  const packageManager = JS_WORKSPACE_TOOLS.includes(member.tool)
+    ? root.packageManager
+    : await detectPackageManager(memberPath);
+  
+  return {
+    hasGit: root.hasGit,
+    packageManager,
+    ...(packageManager === 'yarn' && root.yarnVariant ? { yarnVariant: root.yarnVariant } : {}),
+    runtime: member.runtime,
+    hasCodexDir: false,
+    projectName: member.name,
+    framework: member.framework,
+    ...(root.gitRemoteUrl ? { gitRemoteUrl: root.gitRemoteUrl } : {}),
+    workspaceMember: { path: member.path, orchestrator: root.workspace?.orchestrator ?? 'none' }
+  };
+}
+
+export async function getWorkspaceTemplateVariables(
   context: ProjectContext,
   projectPath: string
-): Promise<TemplateVariables> {
+): Promise<WorkspaceMemberVariables[]> {
+  if (!context.workspace) return [];
+  
+  const results = await mapWithLimit(context.workspace.members, 4, async member => {
+    const memberPath = join(projectPath, member.path);
+    const memberContext = await detectMemberContext(context, member, memberPath);
+    return { path: member.path, variables: await getTemplateVariables(memberContext, memberPath) };
+  });
+  
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function getPinnedTimestamp(): string | undefined {
+  const epoch = process.env['SOURCE_DATE_EPOCH'];
+  if (!epoch || !/^\d+$/.test(epoch)) return undefined;
+  
+  return new Date(Number(epoch) * 1000).toISOString();
+}
+
+export interface ExplainedVariables {
+  variables: TemplateVariables;
+  sources: Record<string, string>;
+}
+
+export async function explainTemplateVariables(
+  context: ProjectContext,
+  projectPath: string
+): Promise<ExplainedVariables> {
   logger.info('Building template variables');
   
   const gitInfo = context.hasGit ? await getGitInfo(projectPath) : {};
   const purpose = await detectPurpose(projectPath);
   const projectImports = await getProjectImports(projectPath, context.runtime);
-  const commands = await getProjectCommands(projectPath, context.packageManager);
+  const runScript = createScriptRunner(context);
+  const ciCommands = await detectCiCommands(projectPath);
+  const commands = await explainProjectCommands(projectPath, context, runScript, false, ciCommands);
+  const scripts = await getProjectScripts(projectPath, runScript);
+  const envVars = await getEnvVarNames(projectPath);
+  const testRunner = await detectTestRunner(projectPath, context.runtime, context.packageManager);
+  const testFilePatterns = await detectTestFilePatterns(projectPath);
+  const structure = await renderProjectStructure(projectPath);
+  const workspaceVariables = context.workspace ? getWorkspaceVariables(context.workspace) : {};
+  const stacks = (context.stacks?.length ?? 0) > 1 ? await getStackItems(context, projectPath) : [];
+  const pinnedTimestamp = getPinnedTimestamp();
   
   const variables: TemplateVariables = {
     PROJECT_NAME: context.projectName,
     PACKAGE_MANAGER: context.packageManager.toUpperCase(),
     RUNTIME: formatRuntime(context.runtime),
-    TIMESTAMP: new Date().toISOString(),
+    TIMESTAMP: pinnedTimestamp ?? new Date().toISOString(),
     PROJECT_PATH: projectPath,
     VERSION_CONTROL: formatVersionControl(context.hasGit, context.gitRemoteUrl, projectPath),
     FRAMEWORK: context.framework,
@@ -308,12 +601,57 @@ export async function getTemplateVariables(
     ...(context.gitRemoteUrl ? { GIT_REMOTE_URL: context.gitRemoteUrl } : {}),
     ...(gitInfo.userName ? { USER_NAME: gitInfo.userName } : {}),
     ...(gitInfo.userEmail ? { USER_EMAIL: gitInfo.userEmail } : {}),
-    ...(purpose ? { PURPOSE: purpose } : {}),
+    ...(purpose ? { PURPOSE: purpose.value } : {}),
     ...(projectImports ? { PROJECT_IMPORTS: projectImports } : {}),
-    ...(commands.install ? { INSTALL_COMMAND: commands.install } : {}),
-    ...(commands.dev ? { DEV_COMMAND: commands.dev } : {}),
-    ...(commands.build ? { BUILD_COMMAND: commands.build } : {}),
-    ...(commands.test ? { TEST_COMMAND: commands.test } : {})
+    ...(structure ? { PROJECT_STRUCTURE: structure } : {}),
+    ...Object.fromEntries(Object.entries(COMMAND_VARIABLES)
+      .filter(([key]) => commands[key as keyof ProjectCommands])
+      .map(([key, variable]) => [variable, commands[key as keyof ProjectCommands]!.value])),
+    ...(testRunner ? {
+      TEST_RUNNER: testRunner.label,
+      TEST_FILE_COMMAND: testRunner.recipes.file,
+      TEST_NAME_COMMAND: testRunner.recipes.name,
+      ...(testRunner.recipes.watch ? { TEST_WATCH_COMMAND: testRunner.recipes.watch } : {}),
+      ...(testRunner.recipes.coverage ? { TEST_COVERAGE_COMMAND: testRunner.recipes.coverage } : {})
+    } : {}),
+    ...(testFilePatterns.length > 0 ? { TEST_FILE_PATTERNS: testFilePatterns } : {}),
+    ...(scripts.length > 0 ? { SCRIPTS: scripts } : {}),
+    ...(envVars.length > 0 ? { ENV_VARS: envVars } : {}),
+    ...(ciCommands.length > 0 ? {
+      CI_COMMANDS: ciCommands.map(({ command, role, file, job }) => ({ command, role, file, job }))
+    } : {}),
+    ...(stacks.length > 0 ? { IS_POLYGLOT: true, STACKS: stacks } : {}),
+    ...workspaceVariables
+  };
+  
+  const sources: Record<string, string> = {
+    PROJECT_NAME: 'target directory name',
+    PACKAGE_MANAGER: 'derived from packageManager',
+    RUNTIME: 'derived from runtime',
+    TIMESTAMP: pinnedTimestamp ? 'SOURCE_DATE_EPOCH' : 'current time',
+    PROJECT_PATH: 'target directory',
+    VERSION_CONTROL: context.gitRemoteUrl ? GIT_COMMANDS.remoteUrl : '.git directory',
+    FRAMEWORK: 'derived from framework',
+    HAS_FRAMEWORK: 'derived from framework',
+    HAS_PACKAGE_MANAGER: 'derived from packageManager',
+    HAS_GIT: '.git directory',
+    GIT_REMOTE_URL: GIT_COMMANDS.remoteUrl,
+    USER_NAME: GIT_COMMANDS.userName,
+    USER_EMAIL: GIT_COMMANDS.userEmail,
+    ...(purpose ? { PURPOSE: purpose.source } : {}),
+    PROJECT_IMPORTS: `${formatRuntime(context.runtime)} config files`,
+    PROJECT_STRUCTURE: 'directory tree (.gitignore respected)',
+    ...Object.fromEntries(Object.entries(COMMAND_VARIABLES)
+      .filter(([key]) => commands[key as keyof ProjectCommands])
+      .map(([key, variable]) => [variable, commands[key as keyof ProjectCommands]!.source])),
+    ...(testRunner ? Object.fromEntries(TEST_RECIPE_VARIABLES.map(name => [name, testRunner.source])) : {}),
+    TEST_FILE_PATTERNS: 'test file names in the project tree',
+    SCRIPTS: 'package.json scripts',
+    ENV_VARS: ENV_EXAMPLE_FILES.join(', '),
+    CI_COMMANDS: [...new Set(ciCommands.map(({ file }) => file))].join(', '),
+    IS_POLYGLOT: 'manifests in the root and top-level directories',
+    STACKS: 'manifests in the root and top-level directories',
+    ...Object.fromEntries(Object.keys(workspaceVariables).map(name => [name, 'workspace manifests']))
   };
   
   logger.debug('Template variables ready', {
@@ -322,5 +660,13 @@ export async function getTemplateVariables(
     framework: variables.FRAMEWORK
   });
   
-  return variables;
+  return { variables, sources };
+}
+
+export async function getTemplateVariables(
+  context: ProjectContext,
+  projectPath: string
+): Promise<TemplateVariables> {
+  return (await explainTemplateVariables(context, projectPath)).variables;
 }
+
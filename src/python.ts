@@ -0,0 +1,223 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseToml, getTomlStrings, getTomlTable, getTomlValue, isTomlTable, type TomlTable } from './toml.js';
+import { logger } from './logger.js';
+import { exists } from './utils.js';
+
+export type PythonPackageManager = 'pip' | 'poetry' | 'uv' | 'pdm' | 'hatch' | 'rye' | 'pipenv';
+
+export interface PythonProject {
+  hasPyproject: boolean;
+  manifest: TomlTable;
+  dependencies: Set<string>;
+}
+
+export interface PythonCommands {
+  install: string;
+  dev?: string;
+  build?: string;
+  test: string;
+}
+
+interface PythonTool {
+  install: (project: PythonProject) => string;
+  run: string;
+  test?: string;
+  build?: string;
+}
+
+export const PYTHON_PACKAGE_MANAGERS: PythonPackageManager[] = ['pip', 'poetry', 'uv', 'pdm', 'hatch', 'rye', 'pipenv'];
+
+const PYTHON_TOOLS: Record<PythonPackageManager, PythonTool> = {
+  pip: {
+    install: project => project.hasPyproject ? 'pip install -e .' : 'pip install -r requirements.txt',
+    run: ''
+  },
+  uv: {
+    install: project => project.hasPyproject ? 'uv sync' : 'uv pip install -r requirements.txt',
+    run: 'uv run ',
+    build: 'uv build'
+  },
+  poetry: { install: () => 'poetry install', run: 'poetry run ', build: 'poetry build' },
+  pdm: { install: () => 'pdm install', run: 'pdm run ', build: 'pdm build' },
+  hatch: { install: () => 'hatch env create', run: 'hatch run ', test: 'hatch test', build: 'hatch build' },
+  rye: { install: () => 'rye sync', run: 'rye run ', test: 'rye test', build: 'rye build' },
+  pipenv: { install: () => 'pipenv install --dev', run: 'pipenv run ' }
+};
+
+const LOCK_FILES: Array<{ file: string; manager: PythonPackageManager }> = [
+  { file: 'uv.lock', manager: 'uv' },
+  { file: 'poetry.lock', manager: 'poetry' },
+  { file: 'pdm.lock', manager: 'pdm' },
+  { file: 'Pipfile.lock', manager: 'pipenv' },
+  { file: 'Pipfile', manager: 'pipenv' },
+  { file: 'requirements.lock', manager: 'rye' },
+  { file: 'hatch.toml', manager: 'hatch' }
+];
+
+const TOOL_SECTIONS: Array<{ path: string; manager: PythonPackageManager }> = [
+  { path: 'tool.uv', manager: 'uv' },
+  { path: 'tool.poetry', manager: 'poetry' },
+  { path: 'tool.pdm', manager: 'pdm' },
+  { path: 'tool.rye', manager: 'rye' },
+  { path: 'tool.hatch.envs', manager: 'hatch' }
+];
+
+const FRAMEWORKS: Array<{ packages: string[]; framework: string }> = [
+  { packages: ['django'], framework: 'Django' },
+  { packages: ['fastapi'], framework: 'FastAPI' },
+  { packages: ['litestar'], framework: 'Litestar' },
+  { packages: ['starlette'], framework: 'Starlette' },
+  { packages: ['flask'], framework: 'Flask' },
+  { packages: ['streamlit'], framework: 'Streamlit' }
+];
+
+const ENTRY_FILES = ['main.py', 'app.py', 'app/main.py', 'src/main.py'];
+const STREAMLIT_ENTRY_FILES = ['streamlit_app.py', 'app.py', 'main.py', 'Home.py'];
+
+async function readText(path: string): Promise<string | undefined> {
+  return readFile(path, 'utf-8').catch(() => undefined);
+}
+
+function readManifest(content: string | undefined, file: string): TomlTable {
+  if (content === undefined) return {};
+  try {
+    return parseToml(content);
+  } catch (error) {
+    logger.debug(`Failed to parse ${file}`, { error: error instanceof Error ? error.message : String(error) });
+    return {};
+  }
+}
+
+function tableArrays(table: TomlTable | undefined): string[] {
+  return Object.keys(table ?? {}).flatMap(key => getTomlStrings(table, key));
+}
+
+function tableKeys(table: TomlTable | undefined): string[] {
+  return Object.keys(table ?? {}).filter(key => key !== 'python');
+}
+
+export function normalizePackageName(requirement: string): string | undefined {
+  const name = requirement.trim().match(/^[A-Za-z0-9][A-Za-z0-9._-]*/)?.[0];
+  return name?.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function collectDependencies(manifest: TomlTable): string[] {
+  const hatchEnvs = Object.values(getTomlTable(manifest, 'tool.hatch.envs') ?? {}).filter(isTomlTable);
+  const poetryGroups = Object.values(getTomlTable(manifest, 'tool.poetry.group') ?? {}).filter(isTomlTable);
+  
+  return [
+    ...getTomlStrings(manifest, 'project.dependencies'),
+    ...tableArrays(getTomlTable(manifest, 'project.optional-dependencies')),
+    ...tableArrays(getTomlTable(manifest, 'dependency-groups')),
+    ...tableArrays(getTomlTable(manifest, 'tool.pdm.dev-dependencies')),
+    ...getTomlStrings(manifest, 'tool.uv.dev-dependencies'),
+    ...getTomlStrings(manifest, 'tool.rye.dev-dependencies'),
+    ...hatchEnvs.flatMap(env => [...getTomlStrings(env, 'dependencies'), ...getTomlStrings(env, 'extra-dependencies')]),
+    ...tableKeys(getTomlTable(manifest, 'tool.poetry.dependencies')),
+    ...tableKeys(getTomlTable(manifest, 'tool.poetry.dev-dependencies')),
+    ...poetryGroups.flatMap(group => tableKeys(getTomlTable(group, 'dependencies'))),
+    ...tableKeys(getTomlTable(manifest, 'packages')),
+    ...tableKeys(getTomlTable(manifest, 'dev-packages'))
+  ];
+}
+
+export async function readPythonProject(projectPath: string): Promise<PythonProject | undefined> {
+  const [pyproject, pipfile, requirements] = await Promise.all([
+    readText(join(projectPath, 'pyproject.toml')),
+    readText(join(projectPath, 'Pipfile')),
+    readText(join(projectPath, 'requirements.txt'))
+  ]);
+  if (pyproject === undefined && pipfile === undefined && requirements === undefined) return undefined;
+  
+  const manifest = readManifest(pyproject, 'pyproject.toml');
+  const specs = [
+    ...collectDependencies(manifest),
+    ...collectDependencies(readManifest(pipfile, 'Pipfile')),
+    ...(requirements ?? '').split('\n').filter(line => !/^\s*(-|#)/.test(line))
+  ];
+  
+  return {
+    hasPyproject: pyproject !== undefined,
+    manifest,
+    dependencies: new Set(specs.map(normalizePackageName).filter((name): name is string => Boolean(name)))
+  };
+}
+
+export function getPythonRunPrefix(packageManager: PythonPackageManager): string {
+  return PYTHON_TOOLS[packageManager].run;
+}
+
+export function isPythonPackageManager(value: string): value is PythonPackageManager {
+  return (PYTHON_PACKAGE_MANAGERS as string[]).includes(value);
+}
+
+export async function explainPythonPackageManager(
+  projectPath: string
+): Promise<{ value: PythonPackageManager; source: string } | undefined> {
+  for (const { file, manager } of LOCK_FILES) {
+    if (await exists(join(projectPath, file))) return { value: manager, source: file };
+  }
+  
+  const project = await readPythonProject(projectPath);
+  if (!project) return await exists(join(projectPath, 'setup.py')) ? { value: 'pip', source: 'setup.py' } : undefined;
+  
+  const tool = TOOL_SECTIONS.find(({ path }) => getTomlValue(project.manifest, path) !== undefined);
+  if (tool) return { value: tool.manager, source: `pyproject.toml [${tool.path}]` };
+  return { value: 'pip', source: project.hasPyproject ? 'pyproject.toml' : 'requirements.txt' };
+}
+
+export async function detectPythonPackageManager(projectPath: string): Promise<PythonPackageManager | undefined> {
+  return (await explainPythonPackageManager(projectPath))?.value;
+}
+
+export async function detectPythonFramework(projectPath: string): Promise<string | undefined> {
+  const project = await readPythonProject(projectPath);
+  const match = project && FRAMEWORKS.find(({ packages }) => packages.some(name => project.dependencies.has(name)));
+  if (match) return match.framework;
+  
+  return await exists(join(projectPath, 'manage.py')) ? 'Django' : undefined;
+}
+
+async function findEntry(projectPath: string, candidates: string[]): Promise<string | undefined> {
+  for (const candidate of candidates) {
+    if (await exists(join(projectPath, candidate))) return candidate;
+  }
+  return undefined;
+}
+
+async function getDevCommand(projectPath: string, framework: string): Promise<string | undefined> {
+  const entry = await findEntry(projectPath, ENTRY_FILES);
+  const module = entry?.replace(/\.py$/, '').replace(/^src\//, '').replace(/\//g, '.') ?? 'main';
+  
+  switch (framework) {
+    case 'Django': return 'python manage.py runserver';
+    case 'FastAPI': return entry ? `fastapi dev ${entry}` : 'fastapi dev';
+    case 'Flask': return 'flask run --debug';
+    case 'Starlette': return `uvicorn ${module}:app --reload`;
+    case 'Litestar': return 'litestar run --reload';
+    case 'Streamlit': return `streamlit run ${await findEntry(projectPath, STREAMLIT_ENTRY_FILES) ?? 'app.py'}`;
+    default: return undefined;
+  }
+}
+
+export async function getPythonCommands(
+  projectPath: string,
+  packageManager: PythonPackageManager,
+  framework: string
+): Promise<PythonCommands> {
+  const project = await readPythonProject(projectPath) ?? { hasPyproject: false, manifest: {}, dependencies: new Set() };
+  const tool = PYTHON_TOOLS[packageManager];
+  const dev = await getDevCommand(projectPath, framework);
+  
+  const usesDjangoRunner = framework === 'Django' && !project.dependencies.has('pytest') &&
+    !project.dependencies.has('pytest-django');
+  const test = tool.test ?? `${tool.run}${usesDjangoRunner ? 'python manage.py test' : 'pytest'}`;
+  
+  return {
+    install: tool.install(project),
+    ...(dev ? { dev: `${tool.run}${dev}` } : {}),
+    ...(tool.build && project.hasPyproject ? { build: tool.build } : {}),
+    test
+  };
+}
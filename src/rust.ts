@@ -0,0 +1,79 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseToml, getTomlTable, isTomlTable, type TomlTable } from './toml.js';
+import { logger } from './logger.js';
+
+export interface RustCommands {
+  install: string;
+  dev?: string;
+  build: string;
+  test: string;
+}
+
+const FRAMEWORKS: Array<{ crates: string[]; framework: string }> = [
+  { crates: ['tauri'], framework: 'Tauri' },
+  { crates: ['bevy'], framework: 'Bevy' },
+  { crates: ['axum'], framework: 'Axum' },
+  { crates: ['actix-web'], framework: 'Actix Web' },
+  { crates: ['rocket'], framework: 'Rocket' }
+];
+
+const DEPENDENCY_TABLES = ['dependencies', 'dev-dependencies', 'build-dependencies', 'workspace.dependencies'];
+
+export async function readCargoManifest(projectPath: string): Promise<TomlTable | undefined> {
+  const content = await readFile(join(projectPath, 'Cargo.toml'), 'utf-8').catch(() => undefined);
+  if (content === undefined) return undefined;
+  
+  try {
+    return parseToml(content);
+  } catch (error) {
+    logger.debug('Failed to parse Cargo.toml', { error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
+
+export function getCrateNames(manifest: TomlTable): Set<string> {
+  const targets = Object.values(getTomlTable(manifest, 'target') ?? {}).filter(isTomlTable);
+  const tables = [
+    ...DEPENDENCY_TABLES.map(path => getTomlTable(manifest, path)),
+    ...targets.flatMap(target => DEPENDENCY_TABLES.map(path => getTomlTable(target, path)))
+  ];
+  
+  return new Set(tables.flatMap(table => Object.entries(table ?? {}).map(([name, spec]) => {
+    const renamed = isTomlTable(spec) ? spec['package'] : undefined;
+    return typeof renamed === 'string' ? renamed : name;
+  })));
+}
+
+export async function detectRustFramework(projectPath: string): Promise<string | undefined> {
+  const manifest = await readCargoManifest(projectPath);
+  if (!manifest) return undefined;
+  
+  const crates = getCrateNames(manifest);
+  return FRAMEWORKS.find(({ crates: names }) => names.some(name => crates.has(name)))?.framework;
+}
+
+function getFrameworkCommands(framework: string): Partial<RustCommands> {
+  switch (framework) {
+    case 'Tauri': return { dev: 'cargo tauri dev', build: 'cargo tauri build' };
+    case 'Bevy':
+    case 'Axum':
+    case 'Actix Web':
+    case 'Rocket': return { dev: 'cargo run' };
+    default: return {};
+  }
+}
+
+export async function getRustCommands(projectPath: string, framework: string): Promise<RustCommands> {
+  const manifest = await readCargoManifest(projectPath);
+  const isWorkspace = manifest !== undefined && getTomlTable(manifest, 'workspace') !== undefined &&
+    getTomlTable(manifest, 'package') === undefined;
+  const scope = isWorkspace ? ' --workspace' : '';
+  
+  return {
+    install: 'cargo fetch',
+    build: `cargo build${scope}`,
+    test: `cargo test${scope}`,
+    ...getFrameworkCommands(framework)
+  };
+}
@@ -0,0 +1,207 @@
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+const MAX_REF_DEPTH = 20;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.match(/^#\/definitions\/(.+)$/)?.[1];
+  const target = name ? root.definitions?.[name] : undefined;
+  if (!target) {
+    throw new Error(`Unsupported schema reference: ${ref}`);
+  }
+  return target;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  depth: number
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) errors.push({ path: childPath(path, key), message: 'is required' });
+  }
+  
+  for (const [key, child] of Object.entries(value)) {
+    const keyPath = childPath(path, key);
+    const declared = schema.properties?.[key];
+    const patterned = Object.entries(schema.patternProperties ?? {})
+      .filter(([pattern]) => new RegExp(pattern).test(key))
+      .map(([, childSchema]) => childSchema);
+    
+    if (declared) errors.push(...validateNode(child, declared, root, keyPath, depth));
+    for (const childSchema of patterned) errors.push(...validateNode(child, childSchema, root, keyPath, depth));
+    
+    if (declared || patterned.length > 0) continue;
+    if (schema.additionalProperties === false) {
+      errors.push({ path: keyPath, message: 'is not a recognised property' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      errors.push(...validateNode(child, schema.additionalProperties, root, keyPath, depth));
+    }
+  }
+  
+  return errors;
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  depth: number
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+  }
+  if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+    errors.push({ path, message: 'must not contain duplicate items' });
+  }
+  
+  if (schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => errors.push(...validateNode(item, items, root, childPath(path, index), depth)));
+  }
+  
+  return errors;
+}
+
+function validateScalar(value: unknown, schema: JsonSchema, path: string): SchemaError[] {
+  const errors: SchemaError[] = [];
+  
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `has an invalid format: ${JSON.stringify(value)}` });
+    }
+  }
+  
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+  
+  return errors;
+}
+
+function validateAnyOf(
+  value: unknown,
+  branches: JsonSchema[],
+  root: JsonSchema,
+  path: string,
+  depth: number
+): SchemaError[] {
+  const results = branches.map(branch => validateNode(value, branch, root, path, depth));
+  if (results.some(errors => errors.length === 0)) return [];
+  
+  const sameType = branches.findIndex(branch => {
+    const resolved = branch.$ref ? resolveRef(branch.$ref, root) : branch;
+    const types = resolved.type === undefined ? [] : [resolved.type].flat();
+    return types.some(type => matchesType(value, type));
+  });
+  if (sameType !== -1) return results[sameType]!;
+  
+  const expected = branches
+    .flatMap(branch => branch.type === undefined ? [] : [branch.type].flat())
+    .join(' or ');
+  return [{ path, message: `expected ${expected || 'a different value'}, got ${typeOf(value)}` }];
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  depth: number
+): SchemaError[] {
+  if (depth > MAX_REF_DEPTH) {
+    throw new Error('Schema nesting exceeds maximum depth');
+  }
+  
+  if (schema.$ref) {
+    return validateNode(value, resolveRef(schema.$ref, root), root, path, depth + 1);
+  }
+  
+  if (schema.anyOf) {
+    return validateAnyOf(value, schema.anyOf, root, path, depth + 1);
+  }
+  
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [{ path, message: `must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` }];
+  }
+  
+  if (schema.type !== undefined) {
+    const types = [schema.type].flat();
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` }];
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    return validateArray(value, schema, root, path, depth + 1);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return validateObject(value as Record<string, unknown>, schema, root, path, depth + 1);
+  }
+  return validateScalar(value, schema, path);
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaError[] {
+  return validateNode(value, schema, schema, '', 0);
+}
@@ -0,0 +1,89 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PackageManager, Runtime, StackInfo } from './types.js';
+import { detectJsPackageManager } from './javascript.js';
+import { detectPythonPackageManager, detectPythonFramework } from './python.js';
+import { detectRustFramework } from './rust.js';
+import { detectGoFramework } from './go.js';
+import { detectJvmFramework } from './jvm.js';
+import { detectJsFramework, exists } from './utils.js';
+import { IGNORED_DIRS } from './files.js';
+
+interface StackDefinition {
+  runtime: Runtime;
+  files: string[];
+  framework: (path: string) => Promise<string | undefined>;
+}
+
+const JS_RUNTIMES: Runtime[] = ['bun', 'typescript', 'node'];
+
+const STACKS: StackDefinition[] = [
+  { runtime: 'rust', files: ['Cargo.toml'], framework: detectRustFramework },
+  { runtime: 'go', files: ['go.mod'], framework: detectGoFramework },
+  { runtime: 'python', files: ['pyproject.toml', 'setup.py', 'requirements.txt', 'Pipfile'], framework: detectPythonFramework },
+  {
+    runtime: 'java',
+    files: ['pom.xml', 'build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'],
+    framework: detectJvmFramework
+  },
+  { runtime: 'c/c++', files: ['CMakeLists.txt', 'meson.build'], framework: async () => undefined },
+  { runtime: 'node', files: ['package.json'], framework: detectJsFramework }
+];
+
+async function hasAny(dir: string, files: string[]): Promise<boolean> {
+  for (const file of files) {
+    if (await exists(join(dir, file))) return true;
+  }
+  return false;
+}
+
+export function isJsRuntime(runtime: Runtime): boolean {
+  return JS_RUNTIMES.includes(runtime);
+}
+
+async function detectJsRuntime(dir: string, packageManager: PackageManager): Promise<Runtime> {
+  if (packageManager === 'bun' || await hasAny(dir, ['bun.lock', 'bun.lockb'])) return 'bun';
+  return await hasAny(dir, ['tsconfig.json', 'tsconfig.build.json']) ? 'typescript' : 'node';
+}
+
+async function detectDirectoryStacks(root: string, path: string, rootJsManager?: PackageManager): Promise<StackInfo[]> {
+  const dir = path === '.' ? root : join(root, path);
+  const stacks: StackInfo[] = [];
+  
+  for (const definition of STACKS) {
+    if (!await hasAny(dir, definition.files)) continue;
+    
+    const framework = await definition.framework(dir) ?? 'None';
+    if (definition.runtime === 'node') {
+      const detection = await detectJsPackageManager(dir);
+      const packageManager = detection && detection.evidence !== 'package.json'
+        ? detection.packageManager
+        : rootJsManager ?? 'npm';
+      stacks.push({ path, runtime: await detectJsRuntime(dir, packageManager), packageManager, framework });
+    } else {
+      const packageManager = definition.runtime === 'python' ? await detectPythonPackageManager(dir) ?? 'pip' : 'none';
+      stacks.push({ path, runtime: definition.runtime, packageManager, framework });
+    }
+  }
+  
+  return stacks;
+}
+
+export async function detectStacks(projectPath: string, excluded: string[] = []): Promise<StackInfo[]> {
+  const rootStacks = await detectDirectoryStacks(projectPath, '.');
+  const rootJsManager = rootStacks.find(stack => isJsRuntime(stack.runtime))?.packageManager;
+  
+  const entries = await readdir(projectPath, { withFileTypes: true }).catch(() => []);
+  const directories = entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+    .map(entry => entry.name)
+    .filter(name => !excluded.includes(name))
+    .sort();
+  
+  const nested: StackInfo[] = [];
+  for (const directory of directories) {
+    nested.push(...await detectDirectoryStacks(projectPath, directory, rootJsManager));
+  }
+  
+  return [...rootStacks, ...nested];
+}
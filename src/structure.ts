@@ -0,0 +1,244 @@
+import { readFile } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+import { walkDirectory, IGNORED_DIRS, type WalkEntry } from './files.js';
+import { AGENTS, AGENT_NAMES } from './agents.js';
+import { logger } from './logger.js';
+
+export interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  anchored: boolean;
+  directoryOnly: boolean;
+}
+
+export interface StructureOptions {
+  maxDepth?: number;
+  budget?: number;
+}
+
+const STRUCTURE_DEPTH = 2;
+const STRUCTURE_BUDGET = 3500;
+const MAX_DIRECTORY_ENTRIES = 20;
+const MARKER_RESERVE = 16;
+
+const VISIBLE_DOTFILES = new Set(['.github']);
+const GENERATED_FILES = new Set(AGENT_NAMES.flatMap(name => AGENTS[name].files('', 'copy').map(file => file.output)));
+
+const FOLDER_NOTES: Record<string, string> = {
+  src: 'source code',
+  lib: 'library code',
+  app: 'application code',
+  test: 'tests',
+  tests: 'tests',
+  __tests__: 'tests',
+  spec: 'tests',
+  e2e: 'end-to-end tests',
+  fixtures: 'test fixtures',
+  docs: 'documentation',
+  doc: 'documentation',
+  scripts: 'scripts',
+  migrations: 'database migrations',
+  examples: 'examples',
+  cmd: 'command entry points',
+  internal: 'private packages',
+  pkg: 'library packages',
+  packages: 'workspace packages',
+  apps: 'applications',
+  public: 'static assets',
+  static: 'static assets',
+  assets: 'static assets',
+  config: 'configuration',
+  bin: 'executables',
+  '.github': 'GitHub workflows and settings'
+};
+
+const ENTRY_POINTS: Array<{ pattern: RegExp; note: string }> = [
+  { pattern: /^src\/main\.rs$/, note: 'binary entry point' },
+  { pattern: /^src\/lib\.rs$/, note: 'library entry point' },
+  { pattern: /^src\/bin\/[^/]+\.rs$/, note: 'binary entry point' },
+  { pattern: /^(cmd\/[^/]+\/)?main\.go$/, note: 'entry point' },
+  { pattern: /^(manage|__main__)\.py$/, note: 'entry point' }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function globToRegExp(glob: string): string {
+  let source = '';
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]!);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  
+  return source;
+}
+
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) continue;
+    
+    rules.push({ pattern: new RegExp(`^${globToRegExp(line)}$`), negated, anchored, directoryOnly });
+  }
+  
+  return rules;
+}
+
+function matchRules(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean | undefined {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  let ignored: boolean | undefined;
+  
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.pattern.test(rule.anchored ? path : name)) ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+export function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  return matchRules(rules, path, isDirectory) ?? false;
+}
+
+function isIgnoredByAny(ignoreFiles: Map<string, IgnoreRule[]>, path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  
+  for (const [directory, rules] of ignoreFiles) {
+    if (directory && !path.startsWith(`${directory}/`)) continue;
+    ignored = matchRules(rules, directory ? path.slice(directory.length + 1) : path, isDirectory) ?? ignored;
+  }
+  return ignored;
+}
+
+function normalizeEntry(path: string): string {
+  return path.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+async function readPackageEntryPoints(projectPath: string): Promise<Map<string, string>> {
+  const entries = new Map<string, string>();
+  
+  try {
+    const pkg = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8'));
+    if (typeof pkg.main === 'string') entries.set(normalizeEntry(pkg.main), 'entry point (package.json main)');
+    if (typeof pkg.module === 'string') {
+      entries.set(normalizeEntry(pkg.module), 'module entry point (package.json module)');
+    }
+    
+    const bins = typeof pkg.bin === 'string' ? [pkg.bin] : Object.values(pkg.bin ?? {});
+    for (const bin of bins) {
+      if (typeof bin === 'string') entries.set(normalizeEntry(bin), 'CLI entry point (package.json bin)');
+    }
+  } catch (error) {
+    logger.debug('No package.json entry points', { error: error instanceof Error ? error.message : String(error) });
+  }
+  
+  return entries;
+}
+
+function describeEntry(path: string, isDirectory: boolean, entryPoints: Map<string, string>): string | undefined {
+  if (isDirectory) return FOLDER_NOTES[path.slice(path.lastIndexOf('/') + 1)];
+  return entryPoints.get(path) ?? ENTRY_POINTS.find(({ pattern }) => pattern.test(path))?.note;
+}
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export async function renderProjectStructure(projectPath: string, options: StructureOptions = {}): Promise<string> {
+  const budget = options.budget ?? STRUCTURE_BUDGET;
+  const maxDepth = options.maxDepth ?? STRUCTURE_DEPTH;
+  const ignoreFiles = new Map<string, IgnoreRule[]>();
+  const readIgnoreFile = async (directory: string) => {
+    const content = await readFile(join(projectPath, directory, '.gitignore'), 'utf-8').catch(() => '');
+    if (content) ignoreFiles.set(directory, parseGitignore(content));
+  };
+  await readIgnoreFile('');
+  const entryPoints = await readPackageEntryPoints(projectPath);
+  
+  const lines: string[] = [];
+  const shown = new Map<string, number>();
+  const omitted = new Map<string, number>();
+  const lastLine = new Map<string, number>();
+  let length = 0;
+  let truncated = false;
+  
+  const skip = (entry: WalkEntry) => {
+    const path = entry.path.split(sep).join('/');
+    if (entry.name.startsWith('.') && !VISIBLE_DOTFILES.has(entry.name)) return true;
+    if (entry.isDirectory && IGNORED_DIRS.has(entry.name)) return true;
+    if (!entry.isDirectory && (GENERATED_FILES.has(path) || entry.name === 'AGENTS.md')) return true;
+    if (isIgnoredByAny(ignoreFiles, path, entry.isDirectory)) return true;
+    
+    const parent = parentOf(path);
+    if ((shown.get(parent) ?? 0) >= MAX_DIRECTORY_ENTRIES) {
+      if (!omitted.has(parent)) length += MARKER_RESERVE + entry.depth * 2;
+      omitted.set(parent, (omitted.get(parent) ?? 0) + 1);
+      return true;
+    }
+    shown.set(parent, (shown.get(parent) ?? 0) + 1);
+    return false;
+  };
+  
+  const onError = (path: string, error: unknown) => {
+    logger.debug('Skipping unreadable directory', { path, error: error instanceof Error ? error.message : String(error) });
+  };
+  
+  const walker = walkDirectory(projectPath, { maxDepth, skip, sorted: true, onError });
+  for await (const entry of walker) {
+    const path = entry.path.split(sep).join('/');
+    const note = describeEntry(path, entry.isDirectory, entryPoints);
+    const line = `${'  '.repeat(entry.depth)}${entry.name}${entry.isDirectory ? '/' : ''}${note ? `  # ${note}` : ''}`;
+    
+    if (length + line.length > budget) {
+      truncated = true;
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+    if (entry.isDirectory && entry.depth < maxDepth) await readIgnoreFile(path);
+    for (let ancestor = parentOf(path); ; ancestor = parentOf(ancestor)) {
+      lastLine.set(ancestor, lines.length - 1);
+      if (!ancestor) break;
+    }
+  }
+  
+  const markers = [...omitted.entries()]
+    .filter(([directory]) => lastLine.has(directory))
+    .map(([directory, count]) => {
+      const depth = directory ? directory.split('/').length : 0;
+      return { index: lastLine.get(directory)! + 1, depth, line: `${'  '.repeat(depth)}... ${count} more` };
+    })
+    .sort((a, b) => b.index - a.index || a.depth - b.depth);
+  for (const { index, line } of markers) lines.splice(index, 0, line);
+  
+  if (truncated) lines.push('... (truncated)');
+  return lines.join('\n');
+}
@@ -0,0 +1,116 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Evidence } from './types.js';
+
+export type TaskRunner = 'just' | 'task' | 'make';
+
+export interface TaskRunnerInfo {
+  runner: TaskRunner;
+  file: string;
+  targets: string[];
+}
+
+export interface TaskRunnerCommands {
+  dev?: string;
+  build?: string;
+  test?: string;
+  lint?: string;
+  format?: string;
+  typecheck?: string;
+}
+
+const TASK_RUNNERS: Array<{ runner: TaskRunner; files: string[]; parse: (content: string) => string[] }> = [
+  { runner: 'just', files: ['justfile', 'Justfile', '.justfile'], parse: content => parseJustfileRecipes(content) },
+  { runner: 'task', files: ['Taskfile.yml', 'Taskfile.yaml', 'taskfile.yml', 'taskfile.yaml'], parse: content => parseTaskfileTasks(content) },
+  { runner: 'make', files: ['GNUmakefile', 'makefile', 'Makefile'], parse: content => parseMakefileTargets(content) }
+];
+
+const TARGET_ALIASES: Record<keyof TaskRunnerCommands, string[]> = {
+  dev: ['dev', 'run', 'serve', 'start'],
+  build: ['build'],
+  test: ['test', 'tests'],
+  lint: ['lint'],
+  format: ['format', 'fmt'],
+  typecheck: ['typecheck', 'type-check', 'check-types']
+};
+
+export function parseMakefileTargets(content: string): string[] {
+  const targets = content
+    .split('\n')
+    .map(line => line.match(/^([A-Za-z0-9][\w./-]*(?:[ \t]+[A-Za-z0-9][\w./-]*)*)[ \t]*::?(?![=:])/)?.[1])
+    .filter((match): match is string => Boolean(match))
+    .flatMap(match => match.split(/[ \t]+/));
+  return [...new Set(targets)];
+}
+
+export function parseJustfileRecipes(content: string): string[] {
+  const keywords = new Set(['set', 'alias', 'export', 'import', 'mod']);
+  const recipes = content
+    .split('\n')
+    .map(line => line.match(/^@?([A-Za-z_][\w-]*)(?:[ \t][^:]*)?:(?![=:])/)?.[1])
+    .filter((name): name is string => Boolean(name) && !keywords.has(name!));
+  return [...new Set(recipes)];
+}
+
+export function parseTaskfileTasks(content: string): string[] {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => /^tasks:\s*(#.*)?$/.test(line));
+  if (start === -1) return [];
+  
+  const tasks: string[] = [];
+  let indent: number | undefined;
+  
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    
+    const depth = line.length - line.trimStart().length;
+    if (depth === 0) break;
+    indent ??= depth;
+    if (depth !== indent) continue;
+    
+    const name = line.trim().match(/^(?:"([^"]+)"|'([^']+)'|([^\s:#][^:#]*?)):(?:\s|$)/);
+    if (name) tasks.push(name[1] ?? name[2] ?? name[3]!);
+  }
+  
+  return tasks;
+}
+
+export async function detectTaskRunners(projectPath: string): Promise<TaskRunnerInfo[]> {
+  const found: TaskRunnerInfo[] = [];
+  
+  for (const { runner, files, parse } of TASK_RUNNERS) {
+    for (const file of files) {
+      const content = await readFile(join(projectPath, file), 'utf-8').catch(() => undefined);
+      if (content === undefined) continue;
+      
+      found.push({ runner, file, targets: parse(content) });
+      break;
+    }
+  }
+  
+  return found;
+}
+
+export async function explainTaskRunnerCommands(
+  projectPath: string
+): Promise<Partial<Record<keyof TaskRunnerCommands, Evidence>>> {
+  const runners = await detectTaskRunners(projectPath);
+  const commands: Partial<Record<keyof TaskRunnerCommands, Evidence>> = {};
+  
+  for (const [role, aliases] of Object.entries(TARGET_ALIASES) as Array<[keyof TaskRunnerCommands, string[]]>) {
+    for (const { runner, file, targets } of runners) {
+      const target = aliases.find(alias => targets.includes(alias));
+      if (target) {
+        commands[role] = { value: `${runner} ${target}`, source: `${file} target "${target}"` };
+        break;
+      }
+    }
+  }
+  
+  return commands;
+}
+
+export async function getTaskRunnerCommands(projectPath: string): Promise<TaskRunnerCommands> {
+  const explained = await explainTaskRunnerCommands(projectPath);
+  return Object.fromEntries(Object.entries(explained).map(([role, evidence]) => [role, evidence.value]));
+}
@@ -1,163 +1,286 @@
-import type { TemplateVariables } from './types.js';
-
-const ALLOWED_TEMPLATE_KEYS = new Set([
-  'PROJECT_NAME',
-  'PACKAGE_MANAGER', 
-  'RUNTIME',
-  'TIMESTAMP',
-  'PROJECT_PATH',
-  'VERSION_CONTROL',
-  'FRAMEWORK',
-  'PURPOSE',
-  'PROJECT_IMPORTS',
-  'GIT_REMOTE_URL',
-  'USER_NAME',
-  'USER_EMAIL',
-  'HAS_FRAMEWORK',
-  'HAS_PACKAGE_MANAGER',
-  'HAS_GIT',
-  'INSTALL_COMMAND',
-  'DEV_COMMAND',
-  'BUILD_COMMAND',
-  'TEST_COMMAND'
-]);
-
-const MAX_VALUE_LENGTH = 1000;
-const MAX_ITERATIONS = 100;
-
-function sanitizeValue(value: unknown): string {
+import type { TemplateVariables, TemplateListItem, TemplateValue } from './types.js';
+import {
+  DEFAULT_REGISTRY,
+  MAX_LIST_ITEMS,
+  MAX_VALUE_LENGTH,
+  maxLengthOf,
+  validateVariable,
+  type VariableRegistry
+} from './variables.js';
+
+const MAX_ITERATIONS = 10000;
+const MAX_PARTIAL_DEPTH = 10;
+
+const SCOPE_KEYS = /^(this(\.\w+)?|@index|@first|@last)$/;
+const KEY_PATTERN = /^(@?\w+(\.\w+)?)$/;
+const TAG_PATTERN = /\{\{\s*([#^\/>]?)\s*([^{}]*?)\s*\}\}/g;
+
+export interface RenderOptions {
+  partials?: Record<string, string>;
+  registry?: VariableRegistry | undefined;
+}
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; key: string; filters: Filter[]; raw: string }
+  | { type: 'section'; key: string; inverted: boolean; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; key: string; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+type BlockNode = Extract<TemplateNode, { body: TemplateNode[] }>;
+
+interface Frame {
+  node: BlockNode;
+  target: TemplateNode[];
+}
+
+interface Scope {
+  item: TemplateListItem;
+  index: number;
+  count: number;
+}
+
+interface RenderState {
+  variables: TemplateVariables;
+  partials: Record<string, string>;
+  registry: VariableRegistry;
+  steps: number;
+  depth: number;
+}
+
+function sanitizeValue(value: unknown, maxLength = MAX_VALUE_LENGTH): string {
   if (value === null || value === undefined) return '';
   if (typeof value === 'boolean') return value ? 'true' : '';
-  if (typeof value !== 'string') return String(value).slice(0, MAX_VALUE_LENGTH);
+  if (typeof value !== 'string') return String(value).slice(0, maxLength);
   
   return value
-    .slice(0, MAX_VALUE_LENGTH)
+    .slice(0, maxLength)
     .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
     .replace(/\\/g, '\\\\')
     .replace(/\{\{/g, '\\{\\{')
     .replace(/\}\}/g, '\\}\\}');
 }
 
-export function renderTemplate(
-  template: string,
-  variables: TemplateVariables
-): string {
-  let result = template;
-  let iterations = 0;
+function itemToString(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>;
+    return typeof record['name'] === 'string' ? record['name'] : Object.values(record).join(' ');
+  }
+  return item === undefined || item === null || item === false ? '' : String(item);
+}
+
+function stringify(value: unknown, separator = ', '): string {
+  return Array.isArray(value) ? value.map(itemToString).join(separator) : itemToString(value);
+}
+
+const FILTERS: Record<string, (value: unknown, arg?: string) => string> = {
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  code: value => {
+    const text = stringify(value);
+    if (!text) return '';
+    return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+  },
+  join: (value, arg) => stringify(value, arg ?? ', ')
+};
+
+function parseFilter(source: string): Filter {
+  const match = source.trim().match(/^(\w+)(?::\s*(?:"([^"]*)"|'([^']*)'))?$/);
+  if (!match?.[1] || !(match[1] in FILTERS)) {
+    throw new Error(`Unknown template filter: ${source.trim()}`);
+  }
   
-  const processConditionals = (text: string): string => {
-    let processed = text.replace(/\{\{#(\w+)\}\}((?:(?!\{\{\/\1\}\}).)*?)\{\{\/\1\}\}/gs, (_match, key, content) => {
-      if (!ALLOWED_TEMPLATE_KEYS.has(key)) return '';
-      
-      const value = variables[key as keyof TemplateVariables];
-      return value ? content : '';
-    });
+  const arg = match[2] ?? match[3];
+  return arg === undefined ? { name: match[1] } : { name: match[1], arg };
+}
+
+function parseVariable(raw: string, expression: string): TemplateNode {
+  const [key = '', ...filters] = expression.match(/(?:[^|"']+|"[^"]*"|'[^']*')+/g) ?? [];
+  if (!KEY_PATTERN.test(key.trim())) return { type: 'text', value: raw };
+  
+  return { type: 'variable', key: key.trim(), filters: filters.map(parseFilter), raw };
+}
+
+function openBlock(sigil: string, expression: string): BlockNode {
+  if (sigil === '#' && expression.startsWith('each ')) {
+    return { type: 'each', key: expression.slice(5).trim(), body: [], alternate: [] };
+  }
+  return { type: 'section', key: expression, inverted: sigil === '^', body: [], alternate: [] };
+}
+
+function closeBlock(stack: Frame[], expression: string): void {
+  const frame = stack.pop();
+  const expected = frame?.node.type === 'each' ? 'each' : frame?.node.key;
+  if (!frame || expected !== expression) {
+    throw new Error(`Mismatched template section: {{/${expression}}}`);
+  }
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Frame[] = [];
+  const target = (): TemplateNode[] => stack[stack.length - 1]?.target ?? root;
+  let cursor = 0;
+  
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [raw, sigil = '', expression = ''] = match;
+    if (match.index > cursor) target().push({ type: 'text', value: template.slice(cursor, match.index) });
+    cursor = match.index + raw.length;
     
-    processed = processed.replace(/\{\{\^(\w+)\}\}((?:(?!\{\{\/\1\}\}).)*?)\{\{\/\1\}\}/gs, (_match, key, content) => {
-      if (!ALLOWED_TEMPLATE_KEYS.has(key)) return '';
-      
-      const value = variables[key as keyof TemplateVariables];
-      return !value ? content : '';
-    });
+    if (sigil === '#' || sigil === '^') {
+      const node = openBlock(sigil, expression);
+      target().push(node);
+      stack.push({ node, target: node.body });
+    } else if (sigil === '/') {
+      closeBlock(stack, expression);
+    } else if (sigil === '>') {
+      target().push({ type: 'partial', name: expression });
+    } else if (expression === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame) throw new Error('Template {{else}} outside of a section');
+      frame.target = frame.node.alternate;
+    } else {
+      target().push(parseVariable(raw, expression));
+    }
+  }
+  
+  if (stack.length > 0) {
+    throw new Error(`Unclosed template section: ${stack[stack.length - 1]!.node.key}`);
+  }
+  if (cursor < template.length) root.push({ type: 'text', value: template.slice(cursor) });
+  return root;
+}
+
+function lookup(key: string, state: RenderState, scope?: Scope): { allowed: boolean; value?: unknown } {
+  if (SCOPE_KEYS.test(key)) {
+    if (!scope) return { allowed: false };
+    if (key === '@index') return { allowed: true, value: String(scope.index) };
+    if (key === '@first') return { allowed: true, value: scope.index === 0 };
+    if (key === '@last') return { allowed: true, value: scope.index === scope.count - 1 };
     
-    return processed;
-  };
+    const field = key.split('.')[1];
+    if (!field) return { allowed: true, value: scope.item };
+    return { allowed: true, value: typeof scope.item === 'object' ? scope.item[field] : undefined };
+  }
   
-  const processVariables = (text: string): string => {
-    return text.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      if (!ALLOWED_TEMPLATE_KEYS.has(key)) return match;
-      
-      const value = variables[key as keyof TemplateVariables];
-      return sanitizeValue(value);
-    });
-  };
+  if (!state.registry.has(key)) return { allowed: false };
+  return { allowed: true, value: state.variables[key] };
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderVariable(node: Extract<TemplateNode, { type: 'variable' }>, state: RenderState, scope?: Scope): string {
+  const { allowed, value } = lookup(node.key, state, scope);
+  if (!allowed) return node.raw;
   
-  let previousResult = '';
-  while (previousResult !== result && iterations++ < MAX_ITERATIONS) {
-    previousResult = result;
-    result = processConditionals(result);
-    result = processVariables(result);
-  }
+  const filtered = node.filters.reduce<unknown>(
+    (current, filter) => FILTERS[filter.name]!(current, filter.arg),
+    Array.isArray(value) && node.filters.length === 0 ? stringify(value) : value
+  );
+  return sanitizeValue(filtered, maxLengthOf(state.registry, node.key));
+}
+
+function renderEach(node: Extract<TemplateNode, { type: 'each' }>, state: RenderState, scope?: Scope): string {
+  const { allowed, value } = lookup(node.key, state, scope);
+  if (!allowed) return '';
   
-  if (iterations >= MAX_ITERATIONS) {
-    throw new Error('Template rendering exceeded maximum iterations - possible infinite loop');
+  const items = Array.isArray(value) ? value.slice(0, MAX_LIST_ITEMS) as TemplateListItem[] : [];
+  if (items.length === 0) return renderNodes(node.alternate, state, scope);
+  
+  return items
+    .map((item, index) => renderNodes(node.body, state, { item, index, count: items.length }))
+    .join('');
+}
+
+function renderPartial(name: string, state: RenderState, scope?: Scope): string {
+  const partial = state.partials[name];
+  if (partial === undefined) throw new Error(`Unknown template partial: ${name}`);
+  if (state.depth >= MAX_PARTIAL_DEPTH) {
+    throw new Error(`Template partials nested deeper than ${MAX_PARTIAL_DEPTH} levels`);
   }
   
-  return result;
+  state.depth++;
+  try {
+    return renderNodes(parseTemplate(partial), state, scope);
+  } finally {
+    state.depth--;
+  }
 }
 
-export function validateTemplateVariables(variables: TemplateVariables): TemplateVariables {
-  type MutableTemplateVariables = {
-    -readonly [K in keyof TemplateVariables]: TemplateVariables[K];
+function renderNode(node: TemplateNode, state: RenderState, scope?: Scope): string {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'variable':
+      return renderVariable(node, state, scope);
+    case 'each':
+      return renderEach(node, state, scope);
+    case 'partial':
+      return renderPartial(node.name, state, scope);
+    case 'section': {
+      const { allowed, value } = lookup(node.key, state, scope);
+      if (!allowed) return '';
+      const branch = isTruthy(value) !== node.inverted ? node.body : node.alternate;
+      return renderNodes(branch, state, scope);
+    }
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], state: RenderState, scope?: Scope): string {
+  let output = '';
+  for (const node of nodes) {
+    if (++state.steps > MAX_ITERATIONS) {
+      throw new Error('Template rendering exceeded maximum iterations - possible infinite loop');
+    }
+    output += renderNode(node, state, scope);
+  }
+  return output;
+}
+
+export function validateTemplateSyntax(template: string): void {
+  parseTemplate(template);
+}
+
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  options: RenderOptions = {}
+): string {
+  const state: RenderState = {
+    variables,
+    partials: options.partials ?? {},
+    registry: options.registry ?? DEFAULT_REGISTRY,
+    steps: 0,
+    depth: 0
   };
   
-  const validated: MutableTemplateVariables = {
-    PROJECT_NAME: '',
-    PACKAGE_MANAGER: '',
-    RUNTIME: '',
-    TIMESTAMP: '',
-    VERSION_CONTROL: '',
-    FRAMEWORK: ''
-  };
+  return renderNodes(parseTemplate(template), state);
+}
+
+export function validateTemplateVariables(
+  variables: TemplateVariables,
+  registry: VariableRegistry = DEFAULT_REGISTRY
+): TemplateVariables {
+  const validated: Record<string, TemplateValue> = {};
+  
+  for (const [key, definition] of registry) {
+    if (definition.required) validated[key] = '';
+  }
   
   for (const [key, value] of Object.entries(variables)) {
-    if (!ALLOWED_TEMPLATE_KEYS.has(key)) continue;
+    const definition = registry.get(key);
+    if (!definition) continue;
     
-    switch (key) {
-      case 'TIMESTAMP':
-        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/.test(value)) {
-          validated.TIMESTAMP = value;
-        }
-        break;
-        
-      case 'USER_EMAIL':
-        if (typeof value === 'string' && value.includes('@') && value.length < 100) {
-          validated.USER_EMAIL = value;
-        }
-        break;
-        
-      case 'HAS_FRAMEWORK':
-        if (typeof value === 'boolean') {
-          validated.HAS_FRAMEWORK = value;
-        }
-        break;
-        
-      case 'HAS_PACKAGE_MANAGER':
-        if (typeof value === 'boolean') {
-          validated.HAS_PACKAGE_MANAGER = value;
-        }
-        break;
-        
-      case 'HAS_GIT':
-        if (typeof value === 'boolean') {
-          validated.HAS_GIT = value;
-        }
-        break;
-        
-      case 'PROJECT_NAME':
-      case 'PACKAGE_MANAGER':
-      case 'RUNTIME':
-      case 'VERSION_CONTROL':
-      case 'FRAMEWORK':
-        if (typeof value === 'string' && value.length < MAX_VALUE_LENGTH) {
-          validated[key] = value;
-        }
-        break;
-        
-      case 'GIT_REMOTE_URL':
-      case 'USER_NAME':
-      case 'PROJECT_PATH':
-      case 'PURPOSE':
-      case 'PROJECT_IMPORTS':
-      case 'INSTALL_COMMAND':
-      case 'DEV_COMMAND':
-      case 'BUILD_COMMAND':
-      case 'TEST_COMMAND':
-        if (typeof value === 'string' && value.length < MAX_VALUE_LENGTH) {
-          validated[key] = value;
-        }
-        break;
-    }
+    const checked = validateVariable(definition, value);
+    if (checked !== undefined) validated[key] = checked;
   }
   
   return validated as TemplateVariables;
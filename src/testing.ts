@@ -0,0 +1,326 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Evidence, PackageManager, Runtime } from './types.js';
+import { getExecCommand } from './javascript.js';
+import { readPythonProject, getPythonRunPrefix, isPythonPackageManager } from './python.js';
+import { detectJvmBuildTool, getJvmLauncher, readBuildScripts } from './jvm.js';
+import { getTomlValue } from './toml.js';
+import { IGNORED_DIRS } from './files.js';
+import { exists } from './utils.js';
+
+export type TestRunner =
+  | 'vitest'
+  | 'jest'
+  | 'mocha'
+  | 'node:test'
+  | 'playwright'
+  | 'bun'
+  | 'pytest'
+  | 'unittest'
+  | 'go'
+  | 'cargo'
+  | 'junit';
+
+export interface TestRecipes {
+  file: string;
+  name: string;
+  watch?: string;
+  coverage?: string;
+}
+
+export interface TestRunnerInfo extends Evidence<TestRunner> {
+  label: string;
+  recipes: TestRecipes;
+}
+
+const JS_RUNNERS: Array<{ runner: TestRunner; packages: string[]; configs: string[]; script: RegExp }> = [
+  {
+    runner: 'vitest',
+    packages: ['vitest'],
+    configs: ['vitest.config.ts', 'vitest.config.mts', 'vitest.config.js', 'vitest.config.mjs', 'vitest.workspace.ts'],
+    script: /\bvitest\b/
+  },
+  {
+    runner: 'jest',
+    packages: ['jest'],
+    configs: ['jest.config.js', 'jest.config.ts', 'jest.config.cjs', 'jest.config.mjs', 'jest.config.json'],
+    script: /\bjest\b/
+  },
+  {
+    runner: 'mocha',
+    packages: ['mocha'],
+    configs: ['.mocharc.js', '.mocharc.cjs', '.mocharc.json', '.mocharc.yml', '.mocharc.yaml'],
+    script: /\bmocha\b/
+  },
+  {
+    runner: 'playwright',
+    packages: ['@playwright/test'],
+    configs: ['playwright.config.ts', 'playwright.config.js', 'playwright.config.mjs'],
+    script: /\bplaywright test\b/
+  },
+  { runner: 'node:test', packages: [], configs: [], script: /\bnode\b.*\s--test\b/ },
+  { runner: 'bun', packages: [], configs: [], script: /\bbun test\b/ }
+];
+
+const RUNNER_LABELS: Record<TestRunner, string> = {
+  vitest: 'Vitest',
+  jest: 'Jest',
+  mocha: 'Mocha',
+  'node:test': 'node:test',
+  playwright: 'Playwright',
+  bun: 'Bun test runner',
+  pytest: 'pytest',
+  unittest: 'unittest',
+  go: 'go test',
+  cargo: 'cargo test',
+  junit: 'JUnit'
+};
+
+const PYTEST_CONFIGS = ['pytest.ini', 'conftest.py', 'tests/conftest.py'];
+
+const TEST_FILE_CONVENTIONS: Array<{ pattern: RegExp; label: (match: RegExpMatchArray) => string }> = [
+  { pattern: /\.(test|spec)\.([cm]?[jt]sx?)$/, label: match => `*.${match[1]}.${match[2]}` },
+  { pattern: /(^|\/)__tests__\/.*\.([cm]?[jt]sx?)$/, label: match => `__tests__/*.${match[2]}` },
+  { pattern: /(^|\/)test_[^/]*\.py$/, label: () => 'test_*.py' },
+  { pattern: /_test\.py$/, label: () => '*_test.py' },
+  { pattern: /_test\.go$/, label: () => '*_test.go' },
+  { pattern: /^tests\/[^/]*\.rs$/, label: () => 'tests/*.rs' },
+  { pattern: /(Test|Tests|IT)\.(java|kt)$/, label: match => `*${match[1]}.${match[2]}` },
+  { pattern: /_spec\.rb$/, label: () => '*_spec.rb' }
+];
+
+const SCAN_LIMIT = 5000;
+
+async function readText(path: string): Promise<string | undefined> {
+  return readFile(path, 'utf-8').catch(() => undefined);
+}
+
+async function findFile(projectPath: string, files: string[]): Promise<string | undefined> {
+  for (const file of files) {
+    if (await exists(join(projectPath, file))) return file;
+  }
+  return undefined;
+}
+
+async function explainJsTestRunner(
+  projectPath: string,
+  packageManager: PackageManager
+): Promise<Evidence<TestRunner> | undefined> {
+  let pkg: Record<string, unknown> = {};
+  try {
+    pkg = JSON.parse(await readText(join(projectPath, 'package.json')) ?? '{}');
+  } catch {
+    return undefined;
+  }
+  
+  const scripts = typeof pkg['scripts'] === 'object' && pkg['scripts'] ? pkg['scripts'] as Record<string, unknown> : {};
+  const testScript = typeof scripts['test'] === 'string' ? scripts['test'] : '';
+  const dependencies = { ...pkg['dependencies'] as object, ...pkg['devDependencies'] as object };
+  
+  const scripted = JS_RUNNERS.find(({ script }) => script.test(testScript));
+  if (scripted) return { value: scripted.runner, source: 'package.json scripts.test' };
+  
+  for (const { runner, packages, configs } of JS_RUNNERS) {
+    const name = packages.find(candidate => candidate in dependencies);
+    if (name) return { value: runner, source: `package.json dependency "${name}"` };
+    
+    const config = await findFile(projectPath, configs);
+    if (config) return { value: runner, source: config };
+  }
+  
+  return packageManager === 'bun' ? { value: 'bun', source: 'Bun built-in test runner' } : undefined;
+}
+
+async function explainPythonTestRunner(projectPath: string): Promise<Evidence<TestRunner> | undefined> {
+  const project = await readPythonProject(projectPath);
+  if (!project) return undefined;
+  
+  if (project.dependencies.has('pytest')) return { value: 'pytest', source: 'Python dependency "pytest"' };
+  if (getTomlValue(project.manifest, 'tool.pytest') !== undefined) {
+    return { value: 'pytest', source: 'pyproject.toml [tool.pytest]' };
+  }
+  
+  const config = await findFile(projectPath, PYTEST_CONFIGS);
+  return config ? { value: 'pytest', source: config } : { value: 'unittest', source: 'Python standard library' };
+}
+
+export async function explainTestRunner(
+  projectPath: string,
+  runtime: Runtime,
+  packageManager: PackageManager
+): Promise<Evidence<TestRunner> | undefined> {
+  switch (runtime) {
+    case 'python':
+      return explainPythonTestRunner(projectPath);
+    case 'go':
+      return { value: 'go', source: 'go.mod' };
+    case 'rust':
+      return { value: 'cargo', source: 'Cargo.toml' };
+    case 'java': {
+      const tool = await detectJvmBuildTool(projectPath);
+      return tool ? { value: 'junit', source: tool === 'gradle' ? 'Gradle build' : 'pom.xml' } : undefined;
+    }
+    default:
+      return explainJsTestRunner(projectPath, packageManager);
+  }
+}
+
+async function getPythonRecipes(
+  projectPath: string,
+  runner: TestRunner,
+  packageManager: PackageManager
+): Promise<TestRecipes> {
+  const run = isPythonPackageManager(packageManager) ? getPythonRunPrefix(packageManager) : '';
+  const dependencies = (await readPythonProject(projectPath))?.dependencies ?? new Set<string>();
+  
+  if (runner === 'unittest') {
+    return {
+      file: `${run}python -m unittest <module>`,
+      name: `${run}python -m unittest <module>.<Class>.<name>`,
+      ...(dependencies.has('coverage') ? { coverage: `${run}coverage run -m unittest` } : {})
+    };
+  }
+  
+  return {
+    file: `${run}pytest <file>`,
+    name: `${run}pytest <file>::<name>`,
+    ...(dependencies.has('pytest-watch') ? { watch: `${run}ptw` } : {}),
+    ...(dependencies.has('pytest-cov') ? { coverage: `${run}pytest --cov` } : {})
+  };
+}
+
+async function getJunitRecipes(projectPath: string): Promise<TestRecipes> {
+  const tool = await detectJvmBuildTool(projectPath) ?? 'maven';
+  const launcher = await getJvmLauncher(projectPath, tool);
+  const jacoco = /jacoco/.test(await readBuildScripts(projectPath, tool));
+  
+  if (tool === 'gradle') {
+    return {
+      file: `${launcher} test --tests <Class>`,
+      name: `${launcher} test --tests '<Class>.<name>'`,
+      watch: `${launcher} test --continuous`,
+      ...(jacoco ? { coverage: `${launcher} test jacocoTestReport` } : {})
+    };
+  }
+  return {
+    file: `${launcher} test -Dtest=<Class>`,
+    name: `${launcher} test -Dtest='<Class>#<name>'`,
+    ...(jacoco ? { coverage: `${launcher} test jacoco:report` } : {})
+  };
+}
+
+export async function getTestRecipes(
+  projectPath: string,
+  runner: TestRunner,
+  packageManager: PackageManager
+): Promise<TestRecipes> {
+  const exec = getExecCommand(packageManager);
+  
+  switch (runner) {
+    case 'vitest':
+      return {
+        file: `${exec} vitest run <file>`,
+        name: `${exec} vitest run <file> -t "<name>"`,
+        watch: `${exec} vitest`,
+        coverage: `${exec} vitest run --coverage`
+      };
+    case 'jest':
+      return {
+        file: `${exec} jest <file>`,
+        name: `${exec} jest <file> -t "<name>"`,
+        watch: `${exec} jest --watch`,
+        coverage: `${exec} jest --coverage`
+      };
+    case 'mocha':
+      return {
+        file: `${exec} mocha <file>`,
+        name: `${exec} mocha <file> --grep "<name>"`,
+        watch: `${exec} mocha --watch`
+      };
+    case 'node:test':
+      return {
+        file: 'node --test <file>',
+        name: 'node --test --test-name-pattern="<name>" <file>',
+        watch: 'node --test --watch',
+        coverage: 'node --test --experimental-test-coverage'
+      };
+    case 'playwright':
+      return {
+        file: `${exec} playwright test <file>`,
+        name: `${exec} playwright test <file> -g "<name>"`,
+        watch: `${exec} playwright test --ui`
+      };
+    case 'bun':
+      return {
+        file: 'bun test <file>',
+        name: 'bun test <file> -t "<name>"',
+        watch: 'bun test --watch',
+        coverage: 'bun test --coverage'
+      };
+    case 'pytest':
+    case 'unittest':
+      return getPythonRecipes(projectPath, runner, packageManager);
+    case 'go':
+      return {
+        file: 'go test ./<package>',
+        name: `go test ./<package> -run '^<name>$'`,
+        coverage: 'go test -cover ./...'
+      };
+    case 'cargo':
+      return {
+        file: 'cargo test --test <target>',
+        name: 'cargo test <name>'
+      };
+    case 'junit':
+      return getJunitRecipes(projectPath);
+  }
+}
+
+export async function detectTestRunner(
+  projectPath: string,
+  runtime: Runtime,
+  packageManager: PackageManager
+): Promise<TestRunnerInfo | undefined> {
+  const runner = await explainTestRunner(projectPath, runtime, packageManager);
+  if (!runner) return undefined;
+  
+  return {
+    ...runner,
+    label: RUNNER_LABELS[runner.value],
+    recipes: await getTestRecipes(projectPath, runner.value, packageManager)
+  };
+}
+
+export function getTestFileConvention(path: string): string | undefined {
+  for (const { pattern, label } of TEST_FILE_CONVENTIONS) {
+    const match = path.match(pattern);
+    if (match) return label(match);
+  }
+  return undefined;
+}
+
+export async function detectTestFilePatterns(projectPath: string, limit = 5): Promise<string[]> {
+  const counts = new Map<string, number>();
+  const queue = [''];
+  let scanned = 0;
+  
+  while (queue.length > 0 && scanned < SCAN_LIMIT) {
+    const dir = queue.shift()!;
+    const entries = await readdir(join(projectPath, dir), { withFileTypes: true }).catch(() => []);
+    
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name)) queue.push(path);
+      } else if (entry.isFile() && scanned++ < SCAN_LIMIT) {
+        const convention = getTestFileConvention(path);
+        if (convention) counts.set(convention, (counts.get(convention) ?? 0) + 1);
+      }
+    }
+  }
+  
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([convention]) => convention);
+}
@@ -0,0 +1,439 @@
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export class TomlError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`Invalid TOML at line ${line}, column ${column}: ${message}`);
+    this.name = 'TomlError';
+  }
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+const DATE_TIME = /^(?:\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)/;
+const DECIMAL = /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?/;
+const RADIX: Record<string, { pattern: RegExp; base: number }> = {
+  x: { pattern: /^0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*/, base: 16 },
+  o: { pattern: /^0o[0-7](?:_?[0-7])*/, base: 8 },
+  b: { pattern: /^0b[01](?:_?[01])*/, base: 2 }
+};
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  e: '\x1B',
+  '"': '"',
+  '\\': '\\'
+};
+
+class TomlParser {
+  private pos = 0;
+  private readonly root: TomlTable = {};
+  private readonly defined = new WeakSet<TomlTable>();
+  private readonly sealed = new WeakSet<object>();
+  private readonly tableArrays = new WeakSet<TomlValue[]>();
+  
+  constructor(private readonly source: string) {}
+  
+  parse(): TomlTable {
+    let current = this.root;
+    
+    while (true) {
+      this.skipBlank();
+      if (this.pos >= this.source.length) return this.root;
+      
+      if (this.peek() === '[') {
+        current = this.peek(1) === '[' ? this.parseArrayTableHeader() : this.parseTableHeader();
+      } else {
+        this.parseKeyValue(current);
+      }
+      this.expectLineEnd();
+    }
+  }
+  
+  private fail(message: string, at = this.pos): never {
+    const before = this.source.slice(0, at).split('\n');
+    throw new TomlError(message, before.length, before[before.length - 1]!.length + 1);
+  }
+  
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+  
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos);
+  }
+  
+  private expect(char: string): void {
+    if (this.peek() !== char) this.fail(`Expected '${char}'`);
+    this.pos++;
+  }
+  
+  private skipSpaces(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+  }
+  
+  private skipComment(): void {
+    if (this.peek() !== '#') return;
+    while (this.pos < this.source.length && this.peek() !== '\n') this.pos++;
+  }
+  
+  private skipBlank(): void {
+    while (this.pos < this.source.length) {
+      this.skipSpaces();
+      this.skipComment();
+      if (this.startsWith('\r\n')) this.pos += 2;
+      else if (this.peek() === '\n') this.pos++;
+      else return;
+    }
+  }
+  
+  private expectLineEnd(): void {
+    this.skipSpaces();
+    this.skipComment();
+    if (this.pos >= this.source.length) return;
+    if (this.startsWith('\r\n')) this.pos += 2;
+    else if (this.peek() === '\n') this.pos++;
+    else this.fail('Expected a newline after the value');
+  }
+  
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    
+    while (true) {
+      this.skipSpaces();
+      const char = this.peek();
+      if (char === '"') {
+        keys.push(this.parseBasicString());
+      } else if (char === "'") {
+        keys.push(this.parseLiteralString());
+      } else {
+        const start = this.pos;
+        while (BARE_KEY.test(this.peek())) this.pos++;
+        if (start === this.pos) this.fail('Expected a key');
+        keys.push(this.source.slice(start, this.pos));
+      }
+      
+      this.skipSpaces();
+      if (this.peek() !== '.') return keys;
+      this.pos++;
+    }
+  }
+  
+  private descend(table: TomlTable, key: string, at: number): TomlTable {
+    const existing = table[key];
+    
+    if (existing === undefined) {
+      const child: TomlTable = {};
+      table[key] = child;
+      return child;
+    }
+    if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+      return existing[existing.length - 1] as TomlTable;
+    }
+    if (!isTomlTable(existing) || this.sealed.has(existing)) {
+      this.fail(`Key '${key}' is already defined`, at);
+    }
+    return existing;
+  }
+  
+  private parseTableHeader(): TomlTable {
+    const start = this.pos;
+    this.expect('[');
+    const keys = this.parseKey();
+    this.expect(']');
+    
+    let table = this.root;
+    for (const key of keys) table = this.descend(table, key, start);
+    
+    if (this.defined.has(table)) this.fail(`Table [${keys.join('.')}] is defined twice`, start);
+    this.defined.add(table);
+    return table;
+  }
+  
+  private parseArrayTableHeader(): TomlTable {
+    const start = this.pos;
+    this.pos += 2;
+    const keys = this.parseKey();
+    this.expect(']');
+    this.expect(']');
+    
+    let parent = this.root;
+    for (const key of keys.slice(0, -1)) parent = this.descend(parent, key, start);
+    
+    const last = keys[keys.length - 1]!;
+    const existing = parent[last];
+    const entry: TomlTable = {};
+    
+    if (existing === undefined) {
+      const array: TomlValue[] = [entry];
+      this.tableArrays.add(array);
+      parent[last] = array;
+    } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+      existing.push(entry);
+    } else {
+      this.fail(`Key '${last}' is already defined`, start);
+    }
+    
+    this.defined.add(entry);
+    return entry;
+  }
+  
+  private parseKeyValue(table: TomlTable): void {
+    const start = this.pos;
+    const keys = this.parseKey();
+    this.expect('=');
+    this.skipSpaces();
+    const value = this.parseValue();
+    
+    let target = table;
+    for (const key of keys.slice(0, -1)) {
+      target = this.descend(target, key, start);
+      this.defined.add(target);
+    }
+    
+    const last = keys[keys.length - 1]!;
+    if (Object.hasOwn(target, last)) this.fail(`Key '${last}' is already defined`, start);
+    target[last] = value;
+  }
+  
+  private parseValue(): TomlValue {
+    const char = this.peek();
+    
+    if (this.startsWith('"""')) return this.parseMultilineBasicString();
+    if (this.startsWith("'''")) return this.parseMultilineLiteralString();
+    if (char === '"') return this.parseBasicString();
+    if (char === "'") return this.parseLiteralString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+    if (this.startsWith('true')) {
+      this.pos += 4;
+      return true;
+    }
+    if (this.startsWith('false')) {
+      this.pos += 5;
+      return false;
+    }
+    return this.parseNumberOrDate();
+  }
+  
+  private parseEscape(): string {
+    const start = this.pos;
+    this.pos++;
+    const char = this.peek();
+    
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.source.slice(this.pos + 1, this.pos + 1 + length);
+      if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) this.fail('Invalid unicode escape', start);
+      
+      const code = parseInt(hex, 16);
+      if (code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)) this.fail('Invalid unicode scalar value', start);
+      this.pos += length + 1;
+      return String.fromCodePoint(code);
+    }
+    
+    const escaped = ESCAPES[char];
+    if (escaped === undefined) this.fail(`Invalid escape sequence '\\${char}'`, start);
+    this.pos++;
+    return escaped;
+  }
+  
+  private parseBasicString(): string {
+    this.pos++;
+    let value = '';
+    
+    while (true) {
+      const char = this.peek();
+      if (char === '' || char === '\n') this.fail('Unterminated string');
+      if (char === '"') {
+        this.pos++;
+        return value;
+      }
+      if (char === '\\') {
+        value += this.parseEscape();
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+  }
+  
+  private parseLiteralString(): string {
+    const start = ++this.pos;
+    const end = this.source.indexOf("'", start);
+    const newline = this.source.indexOf('\n', start);
+    if (end === -1 || (newline !== -1 && newline < end)) this.fail('Unterminated string');
+    
+    this.pos = end + 1;
+    return this.source.slice(start, end);
+  }
+  
+  private skipLeadingNewline(): void {
+    if (this.startsWith('\r\n')) this.pos += 2;
+    else if (this.peek() === '\n') this.pos++;
+  }
+  
+  private closeMultiline(delimiter: string): string | undefined {
+    let run = 0;
+    while (run < 5 && this.peek(run) === delimiter) run++;
+    if (run < 3) return undefined;
+    
+    this.pos += run;
+    return delimiter.repeat(run - 3);
+  }
+  
+  private parseMultilineBasicString(): string {
+    this.pos += 3;
+    this.skipLeadingNewline();
+    let value = '';
+    
+    while (true) {
+      if (this.pos >= this.source.length) this.fail('Unterminated multi-line string');
+      
+      const closing = this.closeMultiline('"');
+      if (closing !== undefined) return value + closing;
+      
+      const char = this.peek();
+      if (char === '\\' && /^\\[ \t]*\r?\n/.test(this.source.slice(this.pos, this.pos + 64))) {
+        this.pos++;
+        while (/[ \t\r\n]/.test(this.peek())) this.pos++;
+      } else if (char === '\\') {
+        value += this.parseEscape();
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+  }
+  
+  private parseMultilineLiteralString(): string {
+    this.pos += 3;
+    this.skipLeadingNewline();
+    let value = '';
+    
+    while (true) {
+      if (this.pos >= this.source.length) this.fail('Unterminated multi-line string');
+      
+      const closing = this.closeMultiline("'");
+      if (closing !== undefined) return value + closing;
+      
+      value += this.peek();
+      this.pos++;
+    }
+  }
+  
+  private parseArray(): TomlValue[] {
+    this.pos++;
+    const values: TomlValue[] = [];
+    
+    while (true) {
+      this.skipBlank();
+      if (this.peek() === ']') {
+        this.pos++;
+        return values;
+      }
+      
+      values.push(this.parseValue());
+      this.skipBlank();
+      
+      if (this.peek() === ',') {
+        this.pos++;
+      } else if (this.peek() !== ']') {
+        this.fail("Expected ',' or ']' in array");
+      }
+    }
+  }
+  
+  private parseInlineTable(): TomlTable {
+    this.pos++;
+    const table: TomlTable = {};
+    
+    this.skipBlank();
+    if (this.peek() === '}') {
+      this.pos++;
+      this.sealed.add(table);
+      return table;
+    }
+    
+    while (true) {
+      this.skipBlank();
+      this.parseKeyValue(table);
+      this.skipBlank();
+      
+      if (this.peek() === '}') {
+        this.pos++;
+        this.sealed.add(table);
+        return table;
+      }
+      this.expect(',');
+    }
+  }
+  
+  private parseNumberOrDate(): TomlValue {
+    const rest = this.source.slice(this.pos, this.pos + 64);
+    
+    const date = rest.match(DATE_TIME)?.[0];
+    if (date) {
+      this.pos += date.length;
+      return date;
+    }
+    
+    const special = rest.match(/^[+-]?(inf|nan)/);
+    if (special) {
+      this.pos += special[0].length;
+      const sign = special[0].startsWith('-') ? -1 : 1;
+      return special[1] === 'inf' ? sign * Infinity : NaN;
+    }
+    
+    const radix = RADIX[rest[1] ?? ''];
+    const prefixed = radix && rest.match(radix.pattern)?.[0];
+    if (radix && prefixed) {
+      this.pos += prefixed.length;
+      return parseInt(prefixed.slice(2).replace(/_/g, ''), radix.base);
+    }
+    
+    const decimal = rest.match(DECIMAL)?.[0];
+    if (!decimal) this.fail('Expected a value');
+    
+    this.pos += decimal.length;
+    return Number(decimal.replace(/_/g, ''));
+  }
+}
+
+export function parseToml(source: string): TomlTable {
+  return new TomlParser(source.replace(/^\uFEFF/, '')).parse();
+}
+
+export function isTomlTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+export function getTomlValue(table: TomlTable | undefined, path: string): TomlValue | undefined {
+  let current: TomlValue | undefined = table;
+  for (const key of path.split('.')) {
+    if (!isTomlTable(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+export function getTomlString(table: TomlTable | undefined, path: string): string | undefined {
+  const value = getTomlValue(table, path);
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getTomlStrings(table: TomlTable | undefined, path: string): string[] {
+  const value = getTomlValue(table, path);
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+export function getTomlTable(table: TomlTable | undefined, path: string): TomlTable | undefined {
+  const value = getTomlValue(table, path);
+  return isTomlTable(value) ? value : undefined;
+}
@@ -1,6 +1,15 @@
-export type PackageManager = 'npm' | 'pnpm' | 'bun' | 'yarn' | 'pip' | 'poetry' | 'uv' | 'none';
+import type { BuiltinVariables } from './variables.js';
+import type { YarnVariant } from './javascript.js';
+
+export type PackageManager =
+  | 'npm' | 'pnpm' | 'bun' | 'yarn'
+  | 'pip' | 'poetry' | 'uv' | 'pdm' | 'hatch' | 'rye' | 'pipenv'
+  | 'none';
 export type Runtime = 'rust' | 'go' | 'python' | 'java' | 'c/c++' | 'bun' | 'typescript' | 'node' | 'unknown';
 
+export type WorkspaceTool = 'npm' | 'pnpm' | 'yarn' | 'bun' | 'cargo' | 'go' | 'uv';
+export type Orchestrator = 'turborepo' | 'nx' | 'none';
+
 export enum ErrorCode {
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   SKELETON_FILES_MISSING = 'SKELETON_FILES_MISSING',
@@ -12,37 +21,65 @@ export enum ErrorCode {
   SECURITY_PATH_TRAVERSAL = 'SECURITY_PATH_TRAVERSAL',
   RACE_CONDITION_DETECTED = 'RACE_CONDITION_DETECTED',
   BACKUP_VERIFICATION_FAILED = 'BACKUP_VERIFICATION_FAILED',
-  TEMP_DIR_CREATION_FAILED = 'TEMP_DIR_CREATION_FAILED'
+  TEMP_DIR_CREATION_FAILED = 'TEMP_DIR_CREATION_FAILED',
+  INVALID_TEMPLATE = 'INVALID_TEMPLATE',
+  INVALID_VARIABLE = 'INVALID_VARIABLE',
+  INVALID_CONFIG = 'INVALID_CONFIG',
+  BACKUP_NOT_FOUND = 'BACKUP_NOT_FOUND'
+}
+
+export interface WorkspaceMember {
+  name: string;
+  path: string;
+  tool: WorkspaceTool;
+  runtime: Runtime;
+  framework: string;
+}
+
+export interface WorkspaceInfo {
+  tools: WorkspaceTool[];
+  orchestrator: Orchestrator;
+  members: WorkspaceMember[];
+}
+
+export interface StackInfo {
+  path: string;
+  runtime: Runtime;
+  packageManager: PackageManager;
+  framework: string;
 }
 
 export interface ProjectContext {
   hasGit: boolean;
   packageManager: PackageManager;
+  yarnVariant?: YarnVariant;
   runtime: Runtime;
   hasCodexDir: boolean;
   gitRemoteUrl?: string;
   projectName: string;
   framework: string;
+  workspace?: WorkspaceInfo;
+  workspaceMember?: { path: string; orchestrator: Orchestrator };
+  stacks?: StackInfo[];
+  warnings?: string[];
+}
+
+export interface Evidence<T extends string = string> {
+  value: T;
+  source: string;
 }
 
-export interface TemplateVariables {
-  PROJECT_NAME: string;
-  PACKAGE_MANAGER: string;
-  RUNTIME: string;
-  TIMESTAMP: string;
-  GIT_REMOTE_URL?: string;
-  USER_NAME?: string;
-  USER_EMAIL?: string;
-  PROJECT_PATH?: string;
-  VERSION_CONTROL: string;
-  FRAMEWORK: string;
-  PURPOSE?: string;
-  PROJECT_IMPORTS?: string;
-  HAS_FRAMEWORK?: boolean;
-  HAS_PACKAGE_MANAGER?: boolean;
-  HAS_GIT?: boolean;
-  INSTALL_COMMAND?: string;
-  DEV_COMMAND?: string;
-  BUILD_COMMAND?: string;
-  TEST_COMMAND?: string;
+export interface Detection<T extends string = string> extends Evidence<T> {
+  candidates: Array<Evidence<T>>;
+}
+
+export type TemplateListItem = string | Record<string, string>;
+
+export type TemplateValue = string | boolean | TemplateListItem[];
+
+export type TemplateVariables = BuiltinVariables & { [key: string]: TemplateValue | undefined };
+
+export interface WorkspaceMemberVariables {
+  path: string;
+  variables: TemplateVariables;
 }
@@ -1,70 +1,103 @@
 import { stat, readFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import type { PackageManager, Runtime } from './types.js';
+import type { Detection, Evidence, PackageManager, Runtime } from './types.js';
 import { executeQuiet } from './exec.js';
 import { withRetry } from './atomic.js';
+import { detectJsPackageManager, getLockfileManager } from './javascript.js';
+import { explainPythonPackageManager, detectPythonFramework } from './python.js';
+import { detectRustFramework } from './rust.js';
+import { detectGoFramework } from './go.js';
+import { detectJvmFramework } from './jvm.js';
 
 export async function exists(path: string): Promise<boolean> {
   return stat(path).then(() => true).catch(() => false);
 }
 
-export async function detectPackageManager(projectPath: string): Promise<PackageManager> {
-  const checks = [
-    { file: 'package-lock.json', result: 'npm' as PackageManager },
-    { file: 'pnpm-lock.yaml', result: 'pnpm' as PackageManager },
-    { file: 'bun.lockb', result: 'bun' as PackageManager },
-    { file: 'yarn.lock', result: 'yarn' as PackageManager },
-    { file: 'package.json', result: 'npm' as PackageManager },
-    { file: 'poetry.lock', result: 'poetry' as PackageManager },
-    { file: 'uv.lock', result: 'uv' as PackageManager },
-    { file: 'requirements.txt', result: 'pip' as PackageManager }
+function toDetection<T extends string>(matches: Array<Evidence<T>>, fallback: Evidence<T>): Detection<T> {
+  const unique = matches.filter((match, index) => matches.findIndex(other => other.value === match.value) === index);
+  const [winner = fallback, ...candidates] = unique;
+  return { ...winner, candidates };
+}
+
+export async function explainPackageManager(projectPath: string): Promise<Detection<PackageManager>> {
+  const [js, python] = await Promise.all([
+    detectJsPackageManager(projectPath),
+    explainPythonPackageManager(projectPath)
+  ]);
+  
+  const matches: Array<Evidence<PackageManager>> = [
+    ...(js ? [{ value: js.packageManager, source: js.evidence }] : []),
+    ...(js?.conflicts ?? []).map(file => ({ value: getLockfileManager(file) ?? js!.packageManager, source: file })),
+    ...(python ? [python] : [])
   ];
+  return toDetection(matches, { value: 'none', source: 'no manifest or lockfile found' });
+}
+
+export async function detectPackageManager(projectPath: string): Promise<PackageManager> {
+  return (await explainPackageManager(projectPath)).value;
+}
+
+const RUNTIME_CHECKS: Array<{ files: string[]; all?: boolean; result: Runtime }> = [
+  { files: ['Cargo.toml'], result: 'rust' },
+  { files: ['go.mod'], result: 'go' },
+  { files: ['pyproject.toml', 'setup.py', 'requirements.txt', 'Pipfile'], result: 'python' },
+  { files: ['pom.xml', 'build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'], result: 'java' },
+  { files: ['CMakeLists.txt', 'meson.build'], result: 'c/c++' },
+  { files: ['bun.lock', 'bun.lockb'], result: 'bun' },
+  { files: ['tsconfig.json', 'tsconfig.build.json'], result: 'typescript' },
+  { files: ['package.json'], result: 'node' },
+  { files: ['Makefile', 'src/'], all: true, result: 'c/c++' }
+];
+
+export async function explainRuntime(projectPath: string): Promise<Detection<Runtime>> {
+  const matches: Array<Evidence<Runtime>> = [];
   
-  for (const check of checks) {
-    if (await exists(join(projectPath, check.file))) {
-      return check.result;
+  for (const check of RUNTIME_CHECKS) {
+    const found: string[] = [];
+    for (const file of check.files) {
+      if (await exists(join(projectPath, file))) found.push(file);
+    }
+    if (check.all ? found.length === check.files.length : found.length > 0) {
+      matches.push({ value: check.result, source: found.join(' and ') });
     }
   }
   
-  return 'none';
+  return toDetection(matches, { value: 'unknown', source: 'no runtime marker files found' });
 }
 
 export async function detectRuntime(projectPath: string): Promise<Runtime> {
-  const checks = [
-    { file: 'Cargo.toml', result: 'rust' as Runtime },
-    { file: 'go.mod', result: 'go' as Runtime },
-    { files: ['setup.py', 'pyproject.toml', 'requirements.txt'], result: 'python' as Runtime },
-    { files: ['pom.xml', 'build.gradle'], result: 'java' as Runtime },
-    { condition: async () => {
-      const hasMakefile = await exists(join(projectPath, 'Makefile'));
-      const hasSrc = await exists(join(projectPath, 'src'));
-      return hasMakefile && hasSrc;
-    }, result: 'c/c++' as Runtime },
-    { file: 'bun.lockb', result: 'bun' as Runtime },
-    { files: ['tsconfig.json', 'tsconfig.build.json'], result: 'typescript' as Runtime },
-    { file: 'package.json', result: 'node' as Runtime }
-  ];
+  return (await explainRuntime(projectPath)).value;
+}
+
+const FRAMEWORK_DETECTORS: Array<{ detect: (projectPath: string) => Promise<string | undefined>; source: string }> = [
+  { detect: detectRustFramework, source: 'Cargo.toml dependencies' },
+  { detect: detectGoFramework, source: 'go.mod requirements' },
+  { detect: detectPythonFramework, source: 'Python dependencies or manage.py' },
+  { detect: detectJvmFramework, source: 'Maven or Gradle build files' }
+];
+
+export async function explainFramework(projectPath: string): Promise<Detection> {
+  const matches: Evidence[] = [];
   
-  for (const check of checks) {
-    if ('file' in check && await exists(join(projectPath, check.file))) {
-      return check.result;
-    }
-    if ('files' in check) {
-      for (const file of check.files) {
-        if (await exists(join(projectPath, file))) {
-          return check.result;
-        }
-      }
-    }
-    if ('condition' in check && await check.condition()) {
-      return check.result;
-    }
+  for (const { detect, source } of FRAMEWORK_DETECTORS) {
+    const framework = await detect(projectPath);
+    if (framework) matches.push({ value: framework, source });
   }
+  matches.push(...await explainJsFramework(projectPath));
   
-  return 'unknown';
+  return toDetection(matches, { value: 'None', source: 'no framework config or dependency found' });
 }
 
 export async function detectFramework(projectPath: string): Promise<string> {
+  return (await explainFramework(projectPath)).value;
+}
+
+export async function detectJsFramework(projectPath: string): Promise<string | undefined> {
+  return (await explainJsFramework(projectPath))[0]?.value;
+}
+
+async function explainJsFramework(projectPath: string): Promise<Evidence[]> {
+  const matches: Evidence[] = [];
   const configChecks = [
     { patterns: ['next.config.js', 'next.config.ts', 'next.config.mjs'], framework: 'Next.js' },
     { patterns: ['nuxt.config.js', 'nuxt.config.ts'], framework: 'Nuxt.js' },
@@ -79,13 +112,14 @@ export async function detectFramework(projectPath: string): Promise<string> {
   for (const { patterns, framework } of configChecks) {
     for (const pattern of patterns) {
       if (await exists(join(projectPath, pattern))) {
-        return framework;
+        matches.push({ value: framework, source: pattern });
+        break;
       }
     }
   }
   
   const packageJsonPath = join(projectPath, 'package.json');
-  if (!await exists(packageJsonPath)) return 'None';
+  if (!await exists(packageJsonPath)) return matches;
   
   try {
     const content = await withRetry(
@@ -117,8 +151,9 @@ export async function detectFramework(projectPath: string): Promise<string> {
     
     for (const check of depChecks) {
       const keys = 'keys' in check ? check.keys : [check.key!];
-      if (keys.some(key => key in deps)) {
-        return check.framework;
+      const key = keys.find(key => key in deps);
+      if (key) {
+        matches.push({ value: check.framework, source: `package.json dependency "${key}"` });
       }
     }
     
@@ -131,17 +166,18 @@ export async function detectFramework(projectPath: string): Promise<string> {
     ];
     
     for (const { pattern, framework } of scriptChecks) {
-      if (Object.values(scripts).some(script => 
-        typeof script === 'string' && pattern.test(script)
-      )) {
-        return framework;
+      const name = Object.keys(scripts).find(name =>
+        typeof scripts[name] === 'string' && pattern.test(scripts[name])
+      );
+      if (name) {
+        matches.push({ value: framework, source: `package.json script "${name}"` });
       }
     }
-    
-    return 'None';
   } catch {
-    return 'None';
+    return matches;
   }
+  
+  return matches;
 }
 
 export async function safeExec(command: string, cwd: string): Promise<string | null> {
@@ -151,26 +187,26 @@ export async function safeExec(command: string, cwd: string): Promise<string | n
 export class ProgressIndicator {
   private message = '';
   private isStarted = false;
-
+  
   start(message: string): void {
     this.message = message;
     this.isStarted = true;
   }
-
+  
   stop(completionMessage?: string): void {
     if (this.isStarted) {
       console.log(`✓ ${completionMessage || this.message}`);
       this.isStarted = false;
     }
   }
-
+  
   fail(errorMessage: string): void {
     if (this.isStarted) {
       console.log(`✗ ${errorMessage}`);
       this.isStarted = false;
     }
   }
-
+  
   cleanup(): void {
     // No-op for now, but could clear console lines if needed
   }
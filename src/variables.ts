@@ -0,0 +1,228 @@
+import type { TemplateListItem, TemplateValue } from './types.js';
+
+export type VariableType = 'string' | 'boolean' | 'list';
+
+export interface VariableDefinition {
+  readonly type: VariableType;
+  readonly required?: boolean;
+  readonly maxLength?: number;
+  readonly validate?: (value: string) => boolean;
+}
+
+export interface CustomVariableDefinition {
+  type?: 'string' | 'boolean';
+  maxLength?: number;
+  pattern?: string;
+  default?: string | boolean;
+  description?: string;
+}
+
+export type VariableRegistry = ReadonlyMap<string, VariableDefinition>;
+
+export interface ResolvedVariables {
+  registry: VariableRegistry;
+  values: Record<string, TemplateValue>;
+}
+
+export const MAX_VALUE_LENGTH = 1000;
+export const MAX_LIST_ITEMS = 100;
+const MAX_LONG_VALUE_LENGTH = 4000;
+const MAX_EMAIL_LENGTH = 100;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_CUSTOM_VARIABLES = 50;
+
+const VARIABLE_NAME = /^[A-Z][A-Z0-9_]*$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+export const BUILTIN_VARIABLES = {
+  PROJECT_NAME: { type: 'string', required: true },
+  PACKAGE_MANAGER: { type: 'string', required: true },
+  RUNTIME: { type: 'string', required: true },
+  TIMESTAMP: { type: 'string', required: true, validate: value => ISO_TIMESTAMP.test(value) },
+  VERSION_CONTROL: { type: 'string', required: true },
+  FRAMEWORK: { type: 'string', required: true },
+  GIT_REMOTE_URL: { type: 'string' },
+  USER_NAME: { type: 'string' },
+  USER_EMAIL: { type: 'string', maxLength: MAX_EMAIL_LENGTH, validate: value => value.includes('@') },
+  PROJECT_PATH: { type: 'string' },
+  PURPOSE: { type: 'string' },
+  PROJECT_IMPORTS: { type: 'string' },
+  PROJECT_STRUCTURE: { type: 'string', maxLength: MAX_LONG_VALUE_LENGTH },
+  HAS_FRAMEWORK: { type: 'boolean' },
+  HAS_PACKAGE_MANAGER: { type: 'boolean' },
+  HAS_GIT: { type: 'boolean' },
+  INSTALL_COMMAND: { type: 'string' },
+  DEV_COMMAND: { type: 'string' },
+  BUILD_COMMAND: { type: 'string' },
+  TEST_COMMAND: { type: 'string' },
+  LINT_COMMAND: { type: 'string' },
+  FORMAT_COMMAND: { type: 'string' },
+  TYPECHECK_COMMAND: { type: 'string' },
+  TEST_RUNNER: { type: 'string' },
+  TEST_FILE_COMMAND: { type: 'string' },
+  TEST_NAME_COMMAND: { type: 'string' },
+  TEST_WATCH_COMMAND: { type: 'string' },
+  TEST_COVERAGE_COMMAND: { type: 'string' },
+  TEST_FILE_PATTERNS: { type: 'list' },
+  IS_MONOREPO: { type: 'boolean' },
+  WORKSPACE_TOOL: { type: 'string' },
+  MONOREPO_TOOL: { type: 'string' },
+  WORKSPACE_PACKAGES: { type: 'string', maxLength: MAX_LONG_VALUE_LENGTH },
+  WORKSPACES: { type: 'list' },
+  IS_POLYGLOT: { type: 'boolean' },
+  STACKS: { type: 'list' },
+  CI_COMMANDS: { type: 'list' },
+  SCRIPTS: { type: 'list' },
+  ENV_VARS: { type: 'list' }
+} as const satisfies Record<string, VariableDefinition>;
+
+type BuiltinDefinitions = typeof BUILTIN_VARIABLES;
+
+type ValueOf<D> = D extends { type: 'boolean' } ? boolean
+  : D extends { type: 'list' } ? TemplateListItem[]
+  : string;
+
+type RequiredKey = {
+  [K in keyof BuiltinDefinitions]: BuiltinDefinitions[K] extends { required: true } ? K : never;
+}[keyof BuiltinDefinitions];
+
+export type BuiltinVariables = {
+  [K in RequiredKey]: ValueOf<BuiltinDefinitions[K]>;
+} & {
+  [K in Exclude<keyof BuiltinDefinitions, RequiredKey>]?: ValueOf<BuiltinDefinitions[K]>;
+};
+
+export const DEFAULT_REGISTRY: VariableRegistry = new Map(Object.entries(BUILTIN_VARIABLES));
+
+function invalidVariable(name: string, detail: string): Error {
+  return new Error(
+    `INVALID VARIABLE: ${name}\n` +
+    `Problem: ${detail}\n` +
+    `Action: Fix the variable declaration or the --var value and retry`
+  );
+}
+
+function validateList(value: unknown): TemplateListItem[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  
+  const isValidString = (item: unknown): item is string =>
+    typeof item === 'string' && item.length < MAX_VALUE_LENGTH;
+  
+  return value.slice(0, MAX_LIST_ITEMS).filter((item): item is TemplateListItem => {
+    if (isValidString(item)) return true;
+    return Boolean(item) && typeof item === 'object' && !Array.isArray(item) &&
+      Object.values(item as Record<string, unknown>).every(isValidString);
+  });
+}
+
+export function maxLengthOf(registry: VariableRegistry, key: string): number {
+  return registry.get(key)?.maxLength ?? MAX_VALUE_LENGTH;
+}
+
+export function validateVariable(definition: VariableDefinition, value: unknown): TemplateValue | undefined {
+  switch (definition.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    
+    case 'list':
+      return validateList(value);
+    
+    case 'string':
+      if (typeof value !== 'string' || value.length >= (definition.maxLength ?? MAX_VALUE_LENGTH)) {
+        return undefined;
+      }
+      return !definition.validate || definition.validate(value) ? value : undefined;
+  }
+}
+
+function compilePattern(name: string, pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw invalidVariable(name, `pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw invalidVariable(name, `pattern '${pattern}' is not a valid regular expression`);
+  }
+}
+
+function toDefinition(name: string, custom: CustomVariableDefinition): VariableDefinition {
+  if (!VARIABLE_NAME.test(name)) {
+    throw invalidVariable(name, 'names must be UPPER_SNAKE_CASE (e.g. SLACK_CHANNEL)');
+  }
+  if (Object.hasOwn(BUILTIN_VARIABLES, name)) {
+    throw invalidVariable(name, 'this name is reserved for a built-in variable');
+  }
+  
+  const type = custom.type ?? (typeof custom.default === 'boolean' ? 'boolean' : 'string');
+  if (type !== 'string' && type !== 'boolean') {
+    throw invalidVariable(name, `unsupported type '${String(type)}' (expected string or boolean)`);
+  }
+  
+  const maxLength = custom.maxLength ?? MAX_VALUE_LENGTH;
+  if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_VALUE_LENGTH) {
+    throw invalidVariable(name, `maxLength must be an integer between 1 and ${MAX_VALUE_LENGTH}`);
+  }
+  
+  if (custom.pattern === undefined) return { type, maxLength };
+  
+  const pattern = compilePattern(name, custom.pattern);
+  return { type, maxLength, validate: value => pattern.test(value) };
+}
+
+export function createVariableRegistry(
+  definitions: Record<string, CustomVariableDefinition> = {}
+): VariableRegistry {
+  const names = Object.keys(definitions);
+  if (names.length > MAX_CUSTOM_VARIABLES) {
+    throw invalidVariable(names[MAX_CUSTOM_VARIABLES]!, `at most ${MAX_CUSTOM_VARIABLES} custom variables are supported`);
+  }
+  
+  const registry = new Map<string, VariableDefinition>(DEFAULT_REGISTRY);
+  for (const [name, custom] of Object.entries(definitions)) {
+    registry.set(name, toDefinition(name, custom));
+  }
+  return registry;
+}
+
+function coerceAssignment(name: string, definition: VariableDefinition, raw: string): TemplateValue {
+  if (definition.type !== 'boolean') return raw;
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  throw invalidVariable(name, `expected true or false, got '${raw}'`);
+}
+
+export function parseVariableAssignment(assignment: string): [string, string] {
+  const separator = assignment.indexOf('=');
+  if (separator <= 0) {
+    throw invalidVariable(assignment, 'expected KEY=VALUE');
+  }
+  return [assignment.slice(0, separator), assignment.slice(separator + 1)];
+}
+
+export function resolveCustomVariables(
+  definitions: Record<string, CustomVariableDefinition> = {},
+  assignments: Record<string, string> = {}
+): ResolvedVariables {
+  const undeclared = Object.keys(assignments).filter(name => !Object.hasOwn(definitions, name));
+  const registry = createVariableRegistry({
+    ...Object.fromEntries(undeclared.map(name => [name, {}])),
+    ...definitions
+  });
+  
+  const values: Record<string, TemplateValue> = {};
+  for (const [name, custom] of Object.entries(definitions)) {
+    if (custom.default !== undefined) values[name] = custom.default;
+  }
+  for (const [name, raw] of Object.entries(assignments)) {
+    values[name] = coerceAssignment(name, registry.get(name)!, raw);
+  }
+  
+  for (const [name, value] of Object.entries(values)) {
+    if (validateVariable(registry.get(name)!, value) === undefined) {
+      throw invalidVariable(name, `value ${JSON.stringify(value)} does not match the declared type, maxLength or pattern`);
+    }
+  }
+  
+  return { registry, values };
+}
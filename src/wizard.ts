@@ -0,0 +1,126 @@
+import { createInterface } from 'node:readline/promises';
+import { readFile } from 'node:fs/promises';
+import type { ResolvedSetting } from './init.js';
+import {
+  checkConfigValue,
+  getSchemaEnum,
+  mergeOverrides,
+  type ConfigOverrides,
+  type CreateCodexConfig,
+  type ConfigCommands
+} from './config.js';
+import { atomicWrite } from './atomic.js';
+
+export interface WizardOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  configPath?: string;
+}
+
+export interface WizardResult {
+  overrides: ConfigOverrides;
+  save: boolean;
+}
+
+interface WizardField {
+  key: string;
+  label: string;
+  choices?: string[];
+}
+
+export class WizardCancelledError extends Error {
+  constructor() {
+    super('Setup cancelled - no files were changed');
+    this.name = 'WizardCancelledError';
+  }
+}
+
+function getFields(): WizardField[] {
+  return [
+    { key: 'projectName', label: 'Project name' },
+    { key: 'purpose', label: 'Purpose' },
+    { key: 'packageManager', label: 'Package manager', choices: getSchemaEnum('packageManager') },
+    { key: 'runtime', label: 'Runtime', choices: getSchemaEnum('runtime') },
+    { key: 'framework', label: 'Framework' },
+    { key: 'commands.install', label: 'Install command' },
+    { key: 'commands.dev', label: 'Dev command' },
+    { key: 'commands.build', label: 'Build command' },
+    { key: 'commands.test', label: 'Test command' }
+  ];
+}
+
+function setOverride(overrides: ConfigOverrides, key: string, value: string): void {
+  const [section, field] = key.split('.');
+  if (section === 'commands' && field) {
+    overrides.commands = { ...overrides.commands, [field as keyof ConfigCommands]: value };
+    return;
+  }
+  (overrides as Record<string, unknown>)[key] = value;
+}
+
+function formatPrompt(field: WizardField, current: string): string {
+  const choices = field.choices ? ` (${field.choices.join(', ')})` : '';
+  const fallback = current ? ` [${current}]` : '';
+  return `${field.label}${choices}${fallback}: `;
+}
+
+export async function runWizard(
+  settings: ResolvedSetting[],
+  options: WizardOptions = {}
+): Promise<WizardResult> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const terminal = Boolean((input as { isTTY?: boolean }).isTTY);
+  const rl = createInterface({ input, output, terminal });
+  const controller = new AbortController();
+  
+  rl.on('SIGINT', () => controller.abort());
+  rl.on('close', () => controller.abort());
+  
+  const ask = async (prompt: string): Promise<string> => {
+    try {
+      return (await rl.question(prompt, { signal: controller.signal })).trim();
+    } catch {
+      throw new WizardCancelledError();
+    }
+  };
+  
+  try {
+    output.write('\nReview the detected values. Press Enter to accept, type to replace, ^C to cancel.\n\n');
+    
+    const overrides: ConfigOverrides = {};
+    const current = new Map(settings.map(setting => [setting.name, setting.value]));
+    
+    for (const field of getFields()) {
+      const detected = current.get(field.key) ?? '';
+      
+      while (true) {
+        const answer = await ask(formatPrompt(field, detected));
+        if (!answer || answer === detected) break;
+        
+        const problem = checkConfigValue(field.key, answer);
+        if (!problem) {
+          setOverride(overrides, field.key, answer);
+          break;
+        }
+        output.write(`  ✗ ${field.label} ${problem}\n`);
+      }
+    }
+    
+    const changed = Object.keys(overrides).length > 0;
+    const save = changed && options.configPath !== undefined &&
+      /^y(es)?$/i.test(await ask(`\nSave these answers to ${options.configPath}? [y/N]: `));
+    
+    return { overrides, save };
+  } finally {
+    rl.removeAllListeners('close');
+    rl.close();
+  }
+}
+
+export async function saveWizardAnswers(configPath: string, overrides: ConfigOverrides): Promise<void> {
+  const content = await readFile(configPath, 'utf-8').catch(() => undefined);
+  const existing = content ? JSON.parse(content) as CreateCodexConfig : {};
+  
+  await atomicWrite(configPath, JSON.stringify(mergeOverrides(existing, overrides), null, 2) + '\n');
+}
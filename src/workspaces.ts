@@ -0,0 +1,215 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { join, posix, basename } from 'node:path';
+import type { WorkspaceInfo, WorkspaceMember, WorkspaceTool, Orchestrator } from './types.js';
+import { detectRuntime, detectFramework, exists } from './utils.js';
+import { parseToml, getTomlString, getTomlStrings } from './toml.js';
+import { detectJsPackageManager } from './javascript.js';
+import { logger } from './logger.js';
+import { IGNORED_DIRS } from './files.js';
+
+const MAX_WORKSPACE_MEMBERS = 50;
+const MAX_GLOB_DEPTH = 4;
+
+const MANIFESTS: Record<WorkspaceTool, string> = {
+  npm: 'package.json',
+  pnpm: 'package.json',
+  yarn: 'package.json',
+  bun: 'package.json',
+  cargo: 'Cargo.toml',
+  go: 'go.mod',
+  uv: 'pyproject.toml'
+};
+
+async function readText(path: string): Promise<string | undefined> {
+  return readFile(path, 'utf-8').catch(() => undefined);
+}
+
+function globSegment(segment: string): RegExp {
+  const escaped = segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*');
+  return new RegExp(`^${escaped}$`);
+}
+
+async function listDirs(root: string, base: string): Promise<string[]> {
+  const entries = await readdir(join(root, base), { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+    .map(entry => posix.join(base, entry.name));
+}
+
+async function listDirsRecursive(root: string, base: string, depth: number): Promise<string[]> {
+  if (depth >= MAX_GLOB_DEPTH) return [];
+  
+  const dirs = await listDirs(root, base);
+  const nested = await Promise.all(dirs.map(dir => listDirsRecursive(root, dir, depth + 1)));
+  return [...dirs, ...nested.flat()];
+}
+
+async function expandPattern(root: string, pattern: string): Promise<string[]> {
+  const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(Boolean);
+  if (segments.includes('..')) return [];
+  
+  let candidates = [''];
+  
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const base of candidates) {
+      if (segment === '**') {
+        next.push(base, ...await listDirsRecursive(root, base, 0));
+      } else if (!segment.includes('*')) {
+        next.push(posix.join(base, segment));
+      } else {
+        const matcher = globSegment(segment);
+        next.push(...(await listDirs(root, base)).filter(dir => matcher.test(posix.basename(dir))));
+      }
+    }
+    candidates = next;
+  }
+  
+  return candidates.filter(Boolean);
+}
+
+async function expandPatterns(root: string, patterns: string[]): Promise<string[]> {
+  const included = new Set<string>();
+  
+  for (const pattern of patterns.filter(p => !p.startsWith('!'))) {
+    for (const dir of await expandPattern(root, pattern)) included.add(dir);
+  }
+  for (const pattern of patterns.filter(p => p.startsWith('!'))) {
+    for (const dir of await expandPattern(root, pattern.slice(1))) included.delete(dir);
+  }
+  
+  return [...included].sort();
+}
+
+function readTomlArray(content: string, path: string): string[] {
+  try {
+    return getTomlStrings(parseToml(content), path);
+  } catch (error) {
+    logger.debug('Failed to parse workspace manifest', { error: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+}
+
+async function readJsPatterns(root: string): Promise<{ tool: WorkspaceTool; patterns: string[] } | undefined> {
+  const pnpmWorkspace = await readText(join(root, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace) {
+    const block = pnpmWorkspace.split(/^packages:\s*$/m)[1]?.split(/^\S/m)[0] ?? '';
+    const patterns = [...block.matchAll(/^\s*-\s*["']?([^"'\n#]+?)["']?\s*$/gm)].map(m => m[1]!);
+    return { tool: 'pnpm', patterns };
+  }
+  
+  const pkgContent = await readText(join(root, 'package.json'));
+  if (!pkgContent) return undefined;
+  
+  try {
+    const workspaces = JSON.parse(pkgContent).workspaces;
+    const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (!Array.isArray(patterns)) return undefined;
+    
+    const tool: WorkspaceTool = (await detectJsPackageManager(root))?.packageManager ?? 'npm';
+    return { tool, patterns: patterns.filter((p: unknown): p is string => typeof p === 'string') };
+  } catch {
+    return undefined;
+  }
+}
+
+function readGoWorkDirs(content: string): string[] {
+  const block = content.match(/^use\s*\(([^)]*)\)/m)?.[1];
+  const lines = block ? block.split('\n') : [...content.matchAll(/^use\s+(\S+)/gm)].map(m => m[1]!);
+  
+  return lines
+    .map(line => line.replace(/\/\/.*$/, '').trim())
+    .filter(line => line && line !== '.')
+    .map(line => line.replace(/^\.\//, ''));
+}
+
+async function collectPatterns(root: string): Promise<Array<{ tool: WorkspaceTool; patterns: string[] }>> {
+  const sources: Array<{ tool: WorkspaceTool; patterns: string[] }> = [];
+  
+  const js = await readJsPatterns(root);
+  if (js) sources.push(js);
+  
+  const cargo = await readText(join(root, 'Cargo.toml'));
+  if (cargo) sources.push({ tool: 'cargo', patterns: readTomlArray(cargo, 'workspace.members') });
+  
+  const goWork = await readText(join(root, 'go.work'));
+  if (goWork) sources.push({ tool: 'go', patterns: readGoWorkDirs(goWork) });
+  
+  const pyproject = await readText(join(root, 'pyproject.toml'));
+  if (pyproject) sources.push({ tool: 'uv', patterns: readTomlArray(pyproject, 'tool.uv.workspace.members') });
+  
+  return sources.filter(source => source.patterns.length > 0);
+}
+
+async function readMemberName(memberPath: string, tool: WorkspaceTool): Promise<string> {
+  const content = await readText(join(memberPath, MANIFESTS[tool]));
+  const fallback = basename(memberPath);
+  if (!content) return fallback;
+  
+  if (MANIFESTS[tool] === 'package.json') {
+    try {
+      const name = JSON.parse(content).name;
+      return typeof name === 'string' && name ? name : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  
+  if (tool === 'go') return content.match(/^module\s+(\S+)/m)?.[1] ?? fallback;
+  
+  try {
+    return getTomlString(parseToml(content), tool === 'cargo' ? 'package.name' : 'project.name') ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function detectOrchestrator(root: string): Promise<Orchestrator> {
+  if (await exists(join(root, 'turbo.json'))) return 'turborepo';
+  if (await exists(join(root, 'nx.json'))) return 'nx';
+  return 'none';
+}
+
+async function resolveMember(root: string, path: string, tool: WorkspaceTool): Promise<WorkspaceMember | undefined> {
+  const memberPath = join(root, path);
+  if (!await exists(join(memberPath, MANIFESTS[tool]))) return undefined;
+  
+  const [name, runtime, framework] = await Promise.all([
+    readMemberName(memberPath, tool),
+    detectRuntime(memberPath),
+    detectFramework(memberPath)
+  ]);
+  
+  return { name, path, tool, runtime, framework };
+}
+
+export async function detectWorkspaces(projectPath: string): Promise<WorkspaceInfo | undefined> {
+  const sources = await collectPatterns(projectPath);
+  if (sources.length === 0) return undefined;
+  
+  const members: WorkspaceMember[] = [];
+  const seen = new Set<string>();
+  
+  for (const { tool, patterns } of sources) {
+    for (const path of await expandPatterns(projectPath, patterns)) {
+      if (seen.has(path) || members.length >= MAX_WORKSPACE_MEMBERS) continue;
+      
+      const member = await resolveMember(projectPath, path, tool);
+      if (!member) continue;
+      
+      seen.add(path);
+      members.push(member);
+    }
+  }
+  
+  if (members.length === 0) return undefined;
+  
+  const workspace: WorkspaceInfo = {
+    tools: sources.map(source => source.tool),
+    orchestrator: await detectOrchestrator(projectPath),
+    members
+  };
+  
+  logger.debug('Workspace detected', { tools: workspace.tools, members: members.length });
+  return workspace;
+}
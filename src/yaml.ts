@@ -0,0 +1,563 @@
+export type YamlValue = string | number | boolean | null | YamlValue[] | YamlMapping;
+
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+export class YamlError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Invalid YAML at line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+  raw: string;
+}
+
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1B',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xA0'
+};
+
+const INTEGER = /^[-+]?(?:0|[1-9]\d*)$/;
+const FLOAT = /^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?$/;
+
+function isBlank(text: string): boolean {
+  return text === '' || text.startsWith('#');
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+}
+
+function stripComment(text: string): string {
+  const match = text.match(/(^|[ \t])#/);
+  return (match ? text.slice(0, match.index) : text).trimEnd();
+}
+
+function resolvePlain(text: string): YamlValue {
+  if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (INTEGER.test(text) || FLOAT.test(text)) return Number(text);
+  if (/^0x[0-9A-Fa-f]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  return text;
+}
+
+function setKey(mapping: YamlMapping, key: string, value: YamlValue): void {
+  Object.defineProperty(mapping, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+class YamlParser {
+  private index = 0;
+  private readonly lines: Line[];
+  private readonly anchors = new Map<string, YamlValue>();
+  
+  constructor(source: string) {
+    const lines = source.split(/\r?\n/).map((raw, index) => {
+      const indent = raw.length - raw.replace(/^ +/, '').length;
+      return { number: index + 1, indent, text: raw.slice(indent).trimEnd(), raw };
+    });
+    
+    const first = lines.findIndex(line => !isBlank(line.text));
+    const start = first !== -1 && /^---(\s|$)/.test(lines[first]!.text) ? first + 1 : 0;
+    const end = lines.findIndex((line, index) => index >= start && line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text));
+    this.lines = lines.slice(start, end === -1 ? undefined : end);
+  }
+  
+  parse(): YamlValue {
+    if (!this.peek()) return null;
+    
+    const value = this.parseBlock();
+    const rest = this.peek();
+    if (rest) this.fail('Unexpected content after the document', rest);
+    return value;
+  }
+  
+  private fail(message: string, line: Line | undefined = this.lines[this.index]): never {
+    throw new YamlError(message, line?.number ?? this.lines.length);
+  }
+  
+  private peek(): Line | undefined {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index]!;
+      if (!isBlank(line.text)) {
+        if (line.text.startsWith('\t')) this.fail('Tabs are not allowed in indentation', line);
+        return line;
+      }
+      this.index++;
+    }
+    return undefined;
+  }
+  
+  private replaceCurrent(line: Line, text: string): void {
+    this.lines[this.index] = { ...line, indent: line.indent + line.text.length - text.length, text };
+  }
+  
+  private splitKey(text: string, line: Line): { key: string; rest: string } | undefined {
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, rest } = this.readQuoted(text, line);
+      const match = rest.match(/^[ \t]*:(?:[ \t]+|$)/);
+      return match ? { key: value, rest: rest.slice(match[0].length) } : undefined;
+    }
+    if (/^[[{&*!|>%@`]/.test(text) || isSequenceItem(text)) return undefined;
+    
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '#' && (text[i - 1] === ' ' || text[i - 1] === '\t')) return undefined;
+      if (text[i] === ':' && (i + 1 === text.length || text[i + 1] === ' ' || text[i + 1] === '\t')) {
+        return { key: text.slice(0, i).trimEnd(), rest: text.slice(i + 1).trimStart() };
+      }
+    }
+    return undefined;
+  }
+  
+  private stripProperties(text: string, line: Line): { anchor?: string; text: string } {
+    let anchor: string | undefined;
+    let rest = text;
+    
+    while (/^[&!]/.test(rest)) {
+      const match = rest.match(/^([&!])(\S*)\s*/)!;
+      if (match[1] === '&') {
+        if (!match[2]) this.fail('Expected an anchor name', line);
+        anchor = match[2];
+      }
+      rest = rest.slice(match[0].length);
+    }
+    
+    return { ...(anchor ? { anchor } : {}), text: rest };
+  }
+  
+  private alias(text: string, line: Line): YamlValue {
+    const name = text.slice(1);
+    if (!this.anchors.has(name)) this.fail(`Unknown alias *${name}`, line);
+    return this.anchors.get(name)!;
+  }
+  
+  private parseBlock(): YamlValue {
+    const line = this.peek()!;
+    
+    if (/^[&!]/.test(line.text)) {
+      const { anchor, text } = this.stripProperties(line.text, line);
+      let value: YamlValue;
+      if (isBlank(text)) {
+        this.index++;
+        const child = this.peek();
+        value = child && child.indent >= line.indent ? this.parseBlock() : null;
+      } else {
+        this.replaceCurrent(line, text);
+        value = this.parseBlock();
+      }
+      if (anchor) this.anchors.set(anchor, value);
+      return value;
+    }
+    
+    if (isSequenceItem(line.text)) return this.parseSequence(line.indent);
+    if (this.splitKey(line.text, line)) return this.parseMapping(line.indent);
+    
+    this.index++;
+    return this.parseScalar(line.text, line.indent - 1, line);
+  }
+  
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    
+    while (true) {
+      const line = this.peek();
+      if (!line || line.indent < indent) return items;
+      if (line.indent > indent) this.fail('Bad indentation of a sequence entry', line);
+      if (!isSequenceItem(line.text)) return items;
+      
+      const rest = line.text.slice(1).trimStart();
+      if (isBlank(rest)) {
+        this.index++;
+        const child = this.peek();
+        items.push(child && child.indent > indent ? this.parseBlock() : null);
+      } else {
+        this.replaceCurrent(line, rest);
+        items.push(this.parseBlock());
+      }
+    }
+  }
+  
+  private parseMapping(indent: number): YamlMapping {
+    const mapping: YamlMapping = {};
+    const merged: YamlMapping[] = [];
+    
+    while (true) {
+      const line = this.peek();
+      if (!line || line.indent < indent) break;
+      if (line.indent > indent) this.fail('Bad indentation of a mapping entry', line);
+      
+      const entry = this.splitKey(line.text, line);
+      if (!entry) {
+        if (isSequenceItem(line.text)) break;
+        this.fail('Expected a mapping key', line);
+      }
+      
+      this.index++;
+      const value = this.parseValue(entry.rest, indent, line);
+      if (entry.key === '<<') {
+        const sources = Array.isArray(value) ? value : [value];
+        for (const source of sources) {
+          if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+            this.fail('Merge keys expect a mapping or a list of mappings', line);
+          }
+          merged.push(source);
+        }
+        continue;
+      }
+      if (Object.hasOwn(mapping, entry.key)) this.fail(`Duplicate key "${entry.key}"`, line);
+      setKey(mapping, entry.key, value);
+    }
+    
+    if (merged.length === 0) return mapping;
+    
+    const result: YamlMapping = {};
+    for (const source of [...merged].reverse()) {
+      for (const [key, value] of Object.entries(source)) setKey(result, key, value);
+    }
+    for (const [key, value] of Object.entries(mapping)) setKey(result, key, value);
+    return result;
+  }
+  
+  private parseValue(rest: string, indent: number, line: Line): YamlValue {
+    const { anchor, text } = this.stripProperties(rest, line);
+    let value: YamlValue;
+    
+    if (isBlank(text)) {
+      const child = this.peek();
+      value = !child ? null
+        : child.indent > indent ? this.parseBlock()
+        : child.indent === indent && isSequenceItem(child.text) ? this.parseSequence(indent)
+        : null;
+    } else {
+      value = this.parseScalar(text, indent, line);
+    }
+    
+    if (anchor) this.anchors.set(anchor, value);
+    return value;
+  }
+  
+  private parseScalar(text: string, indent: number, line: Line): YamlValue {
+    if (text.startsWith('|') || text.startsWith('>')) return this.parseBlockScalar(text, indent, line);
+    if (text.startsWith('*')) return this.alias(stripComment(text), line);
+    if (text.startsWith('[') || text.startsWith('{')) return this.parseFlowValue(text, line);
+    
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, rest } = this.readQuoted(text, line);
+      if (!isBlank(rest.trimStart())) this.fail('Unexpected content after a quoted string', line);
+      return value;
+    }
+    
+    const parts = [stripComment(text)];
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index]!;
+      if (isBlank(next.text) || next.indent <= indent) break;
+      parts.push(stripComment(next.text));
+      this.index++;
+    }
+    return resolvePlain(parts.join(' '));
+  }
+  
+  private readQuoted(text: string, line: Line): { value: string; rest: string } {
+    const quote = text[0]!;
+    let source = text;
+    let value = '';
+    let i = 1;
+    
+    while (true) {
+      if (i >= source.length) {
+        const next = this.lines[this.index + 1];
+        if (!next || next.indent <= line.indent && !isBlank(next.text)) this.fail('Unterminated quoted string', line);
+        this.index++;
+        value = value.trimEnd() + (next.text === '' ? '\n' : ' ');
+        source = next.text;
+        i = 0;
+        continue;
+      }
+      
+      const char = source[i]!;
+      if (char === quote) {
+        if (quote === "'" && source[i + 1] === "'") {
+          value += "'";
+          i += 2;
+          continue;
+        }
+        return { value, rest: source.slice(i + 1) };
+      }
+      if (quote === '"' && char === '\\') {
+        const escape = source[i + 1] ?? '';
+        const hex = { x: 2, u: 4, U: 8 }[escape];
+        if (hex) {
+          const code = source.slice(i + 2, i + 2 + hex);
+          if (!/^[0-9A-Fa-f]+$/.test(code) || code.length !== hex) this.fail('Invalid escape sequence', line);
+          value += String.fromCodePoint(parseInt(code, 16));
+          i += 2 + hex;
+        } else {
+          if (!(escape in ESCAPES)) this.fail(`Invalid escape sequence \\${escape}`, line);
+          value += ESCAPES[escape];
+          i += 2;
+        }
+        continue;
+      }
+      value += char;
+      i++;
+    }
+  }
+  
+  private parseBlockScalar(header: string, indent: number, line: Line): string {
+    const match = stripComment(header).match(/^([|>])([1-9]?)([+-]?)([1-9]?)$/);
+    if (!match) this.fail('Invalid block scalar header', line);
+    
+    const [, style, explicitBefore, chomping, explicitAfter] = match;
+    const explicit = Number(explicitBefore || explicitAfter) || 0;
+    const body: string[] = [];
+    let contentIndent = explicit ? indent + explicit : 0;
+    
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index]!;
+      if (next.raw.trim() === '') {
+        body.push('');
+        this.index++;
+        continue;
+      }
+      if (!contentIndent) {
+        if (next.indent <= indent) break;
+        contentIndent = next.indent;
+      }
+      if (next.indent < contentIndent) break;
+      body.push(next.raw.slice(contentIndent));
+      this.index++;
+    }
+    
+    let end = body.length;
+    while (end > 0 && body[end - 1] === '') end--;
+    const trailing = body.length - end;
+    const content = body.slice(0, end);
+    const text = style === '|' ? content.join('\n') : this.fold(content);
+    
+    if (content.length === 0) return chomping === '+' ? '\n'.repeat(trailing) : '';
+    if (chomping === '-') return text;
+    if (chomping === '+') return `${text}\n${'\n'.repeat(trailing)}`;
+    return `${text}\n`;
+  }
+  
+  private fold(lines: string[]): string {
+    let result = '';
+    let previous: string | undefined;
+    
+    for (const text of lines) {
+      if (previous === undefined) {
+        result = text;
+      } else if (text === '' || previous === '' || /^\s/.test(text) || /^\s/.test(previous)) {
+        result += previous === '' && text !== '' && !/^\s/.test(text) ? text : `\n${text}`;
+      } else {
+        result += ` ${text}`;
+      }
+      previous = text;
+    }
+    return result;
+  }
+  
+  private parseFlowValue(text: string, line: Line): YamlValue {
+    let source = text;
+    while (!this.isBalanced(source)) {
+      const next = this.lines[this.index];
+      if (!next) this.fail('Unterminated flow collection', line);
+      source += ` ${next.text}`;
+      this.index++;
+    }
+    
+    const flow = new FlowParser(source, message => this.fail(message, line), name => this.alias(name, line));
+    const value = flow.parse();
+    if (!isBlank(flow.remaining().trim())) this.fail('Unexpected content after a flow collection', line);
+    return value;
+  }
+  
+  private isBalanced(text: string): boolean {
+    let depth = 0;
+    let quote: string | undefined;
+    
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (quote) {
+        if (char === '\\' && quote === '"') i++;
+        else if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '#' && (text[i - 1] === ' ' || text[i - 1] === '\t')) {
+        break;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return true;
+      }
+    }
+    return depth <= 0;
+  }
+}
+
+class FlowParser {
+  private pos = 0;
+  
+  constructor(
+    private readonly source: string,
+    private readonly fail: (message: string) => never,
+    private readonly alias: (text: string) => YamlValue
+  ) {}
+  
+  parse(): YamlValue {
+    return this.parseValue();
+  }
+  
+  remaining(): string {
+    return this.source.slice(this.pos);
+  }
+  
+  private skipSpaces(): void {
+    while (/\s/.test(this.source[this.pos] ?? '')) this.pos++;
+  }
+  
+  private parseValue(): YamlValue {
+    this.skipSpaces();
+    const char = this.source[this.pos];
+    
+    if (char === '[') return this.parseSequence();
+    if (char === '{') return this.parseMapping();
+    if (char === '"' || char === "'") return this.parseQuoted(char);
+    
+    const start = this.pos;
+    while (this.pos < this.source.length && !/[,\]}]/.test(this.source[this.pos]!) &&
+           !(this.source[this.pos] === ':' && /[\s,\]}]/.test(this.source[this.pos + 1] ?? ' '))) {
+      this.pos++;
+    }
+    const text = this.source.slice(start, this.pos).trim();
+    return text.startsWith('*') ? this.alias(text) : resolvePlain(text);
+  }
+  
+  private parseQuoted(quote: string): string {
+    let value = '';
+    this.pos++;
+    
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]!;
+      if (char === quote) {
+        if (quote === "'" && this.source[this.pos + 1] === "'") {
+          value += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return value;
+      }
+      if (quote === '"' && char === '\\') {
+        const escape = this.source[this.pos + 1] ?? '';
+        if (!(escape in ESCAPES)) this.fail(`Invalid escape sequence \\${escape}`);
+        value += ESCAPES[escape];
+        this.pos += 2;
+        continue;
+      }
+      value += char;
+      this.pos++;
+    }
+    return this.fail('Unterminated quoted string');
+  }
+  
+  private parseSequence(): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.pos++;
+    
+    while (true) {
+      this.skipSpaces();
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipSpaces();
+      
+      const separator = this.source[this.pos];
+      if (separator === ',') this.pos++;
+      else if (separator !== ']') this.fail('Expected "," or "]" in a flow sequence');
+    }
+  }
+  
+  private parseMapping(): YamlMapping {
+    const mapping: YamlMapping = {};
+    this.pos++;
+    
+    while (true) {
+      this.skipSpaces();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        return mapping;
+      }
+      
+      const key = this.parseValue();
+      this.skipSpaces();
+      let value: YamlValue = null;
+      if (this.source[this.pos] === ':') {
+        this.pos++;
+        value = this.parseValue();
+        this.skipSpaces();
+      }
+      setKey(mapping, String(key), value);
+      
+      const separator = this.source[this.pos];
+      if (separator === ',') this.pos++;
+      else if (separator !== '}') this.fail('Expected "," or "}" in a flow mapping');
+    }
+  }
+}
+
+export function parseYaml(source: string): YamlValue {
+  return new YamlParser(source.replace(/^\uFEFF/, '')).parse();
+}
+
+export function isYamlMapping(value: YamlValue | undefined): value is YamlMapping {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getYamlValue(mapping: YamlMapping | undefined, path: string): YamlValue | undefined {
+  let current: YamlValue | undefined = mapping;
+  for (const key of path.split('.')) {
+    if (!isYamlMapping(current) || !Object.hasOwn(current, key)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+export function getYamlString(mapping: YamlMapping | undefined, path: string): string | undefined {
+  const value = getYamlValue(mapping, path);
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getYamlList(mapping: YamlMapping | undefined, path: string): YamlValue[] {
+  const value = getYamlValue(mapping, path);
+  return Array.isArray(value) ? value : [];
+}
+
+export function getYamlMapping(mapping: YamlMapping | undefined, path: string): YamlMapping | undefined {
+  const value = getYamlValue(mapping, path);
+  return isYamlMapping(value) ? value : undefined;
+}
@@ -101,62 +101,1519 @@ async function testDryRun() {
       throw new Error('Dry run should not create actual files');
     }
     
+    const planned = result.preview?.find(file => file.path === 'AGENTS.md');
+    if (planned?.status !== 'new' || !planned.content.includes('# AGENTS.md')) {
+      throw new Error('Dry run should render new files in memory');
+    }
+    
+    await fs.writeFile(agentsFile, 'hand-written notes\n');
+    const modified = await init(testDir, { dryRun: true });
+    const preview = modified.preview.find(file => file.path === 'AGENTS.md');
+    if (preview?.status !== 'modified' || !preview.diff.includes('--- a/AGENTS.md') ||
+        !preview.diff.includes('+<!-- create-codex:begin')) {
+      throw new Error('Dry run should diff modified files against disk');
+    }
+    if (!modified.backedUpFiles?.['AGENTS.md']) {
+      throw new Error('Dry run should list the backups a run would create');
+    }
+    if (await fs.readFile(agentsFile, 'utf-8') !== 'hand-written notes\n') {
+      throw new Error('Dry run should not modify existing files');
+    }
+    
     console.log(`✓ Dry run mode works correctly`);
   } finally {
     await cleanup(testDir);
   }
 }
 
-async function testExistingFiles() {
-  console.log('Testing backup mechanism with existing files...');
+async function testExistingFiles() {
+  console.log('Testing backup mechanism with existing files...');
+  const testDir = await createTempDir();
+  
+  try {
+    const existingAgentsContent = '# My Custom AGENTS.md\n\nThis is my existing documentation.';
+    const existingConfigContent = '# My custom config\nproject = "test"';
+    
+    await fs.writeFile(join(testDir, 'AGENTS.md'), existingAgentsContent);
+    await fs.mkdir(join(testDir, '.codex'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex', 'config.toml'), existingConfigContent);
+    
+    const { init } = await loadModule();
+    const result = await init(testDir);
+    
+    if (!result.success) {
+      throw new Error(`Init with existing files failed: ${result.message}`);
+    }
+    
+    const backupDirs = await fs.readdir(testDir);
+    const backupDir = backupDirs.find(dir => dir.startsWith('.create-codex-backup-'));
+    
+    if (!backupDir) {
+      throw new Error('Backup directory was not created');
+    }
+    
+    const backupAgentsFile = join(testDir, backupDir, 'AGENTS.md');
+    const backupAgentsContent = await fs.readFile(backupAgentsFile, 'utf-8');
+    
+    if (backupAgentsContent !== existingAgentsContent) {
+      throw new Error(`Backup content mismatch.\nExpected: ${existingAgentsContent}\nGot: ${backupAgentsContent}`);
+    }
+    
+    const backupConfigFile = join(testDir, backupDir, '.codex', 'config.toml');
+    const backupConfigExists = await fs.access(backupConfigFile).then(() => true).catch(() => false);
+    
+    if (backupConfigExists) {
+      const backupConfigContent = await fs.readFile(backupConfigFile, 'utf-8');
+      if (backupConfigContent !== existingConfigContent) {
+        throw new Error(`Config backup mismatch.\nExpected: ${existingConfigContent}\nGot: ${backupConfigContent}`);
+      }
+    }
+    
+    const newAgentsContent = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    
+    if (newAgentsContent === existingAgentsContent) {
+      throw new Error('AGENTS.md was not replaced with new content');
+    }
+    
+    console.log('✓ Backup mechanism preserves exact user data');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testManagedRegions() {
+  console.log('Testing managed region merge...');
+  const testDir = await createTempDir();
+  
+  try {
+    const teamSection = '# Team Notes\n\nDeploy only on Tuesdays.';
+    await fs.writeFile(join(testDir, 'AGENTS.md'), teamSection);
+    
+    const { init } = await loadModule();
+    const first = await init(testDir);
+    if (!first.success) {
+      throw new Error(`Init failed: ${first.message}`);
+    }
+    
+    const merged = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!merged.startsWith(teamSection)) {
+      throw new Error('Hand-written content was not preserved');
+    }
+    if (!merged.includes('<!-- create-codex:begin main -->') || !merged.includes('<!-- create-codex:end main -->')) {
+      throw new Error('Managed region markers missing');
+    }
+    if (!first.mergedFiles || !first.mergedFiles.includes('AGENTS.md')) {
+      throw new Error('Merged files not reported');
+    }
+    
+    const edited = merged.replace('Deploy only on Tuesdays.', 'Deploy only on Wednesdays.') + '\n## Footer\n';
+    await fs.writeFile(join(testDir, 'AGENTS.md'), edited);
+    
+    const second = await init(testDir);
+    if (!second.success) {
+      throw new Error(`Re-run failed: ${second.message}`);
+    }
+    
+    const rerun = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!rerun.startsWith('# Team Notes\n\nDeploy only on Wednesdays.') || !rerun.endsWith('## Footer\n')) {
+      throw new Error('Re-run changed content outside managed regions');
+    }
+    if (rerun.split('create-codex:begin main').length !== 2) {
+      throw new Error('Re-run duplicated the managed region');
+    }
+    
+    await fs.writeFile(join(testDir, 'AGENTS.md'), teamSection);
+    const adopted = await init(testDir, { mergeMode: 'adopt' });
+    if (!adopted.success) {
+      throw new Error(`Adopt failed: ${adopted.message}`);
+    }
+    
+    const adoptedContent = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (adoptedContent.includes('Deploy only') || !adoptedContent.startsWith('<!-- create-codex:begin main -->')) {
+      throw new Error('Adopt mode did not replace unmarked content');
+    }
+    
+    const { mergeManagedContent, parseToml } = await loadModule();
+    const existingToml = 'model = "o3"\napproval_policy = "never"\n\n[tools]\nweb = true\n';
+    const generatedToml = '# Settings\napproval_policy = "on-request"\nsandbox_mode = "read-only"\n\n' +
+      '[tools]\nweb = false\n\n[history]\npersistence = "none"\n';
+    const mergedToml = mergeManagedContent(existingToml, generatedToml, 'config.toml');
+    const parsed = parseToml(mergedToml);
+    if (parsed.model !== 'o3' || parsed.approval_policy !== 'never' || parsed.sandbox_mode !== 'read-only' ||
+        parsed.tools.web !== true || parsed.history?.persistence !== 'none') {
+      throw new Error(`TOML merge should keep the user's keys and tables and add the rest:\n${mergedToml}`);
+    }
+    if (!mergedToml.startsWith('# create-codex:begin main\n# Settings\nsandbox_mode') ||
+        mergeManagedContent(mergedToml, generatedToml, 'config.toml') !== mergedToml) {
+      throw new Error(`Top-level keys should precede the user's tables and re-merging should be stable:\n${mergedToml}`);
+    }
+    
+    console.log('✓ Managed regions preserve hand-written content');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testCheckDrift() {
+  console.log('Testing drift detection...');
+  const testDir = await createTempDir();
+  
+  try {
+    const { init, check, createUnifiedDiff } = await loadModule();
+    const missing = await check(testDir);
+    if (!missing.success || missing.inSync || missing.files[0]?.status !== 'missing') {
+      throw new Error('Check should report missing AGENTS.md');
+    }
+    
+    await init(testDir);
+    const clean = await check(testDir);
+    if (!clean.success || !clean.inSync) {
+      throw new Error(`Freshly generated files reported as drifted: ${clean.message}`);
+    }
+    
+    const movedRoot = await createTempDir();
+    try {
+      const movedDir = join(movedRoot, 'moved-checkout');
+      await fs.cp(testDir, movedDir, { recursive: true });
+      const moved = await check(movedDir);
+      if (!moved.inSync) {
+        throw new Error(`Check should ignore the checkout location: ${moved.files.map(f => f.diff).join('\n')}`);
+      }
+    } finally {
+      await cleanup(movedRoot);
+    }
+    
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ scripts: { test: 'node test.js' } }));
+    const drifted = await check(testDir);
+    const agents = drifted.files.find(f => f.path === 'AGENTS.md');
+    if (drifted.inSync || agents?.status !== 'drifted' || !agents.diff.includes('+- Run tests: `npm run test`')) {
+      throw new Error('Check did not report drift after package.json changed');
+    }
+    
+    const eolDiff = createUnifiedDiff('one\ntwo', 'one\ntwo\n');
+    if (!eolDiff.includes('-two\n\\ No newline at end of file\n+two\n')) {
+      throw new Error(`A missing trailing newline should produce a hunk:\n${eolDiff}`);
+    }
+    
+    process.env.SOURCE_DATE_EPOCH = '1700000000';
+    try {
+      await init(testDir);
+      const pinned = await check(testDir);
+      if (!pinned.inSync) {
+        throw new Error('Pinned TIMESTAMP should render identically on re-run');
+      }
+    } finally {
+      delete process.env.SOURCE_DATE_EPOCH;
+    }
+    
+    console.log('✓ Drift detection reports diffs and stays stable on re-runs');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testWorkspaces() {
+  console.log('Testing monorepo workspace detection...');
+  const testDir = await createTempDir();
+  
+  try {
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'root', workspaces: ['packages/*'] }));
+    await fs.writeFile(join(testDir, 'nx.json'), '{}');
+    await fs.mkdir(join(testDir, 'packages', 'api'), { recursive: true });
+    await fs.writeFile(join(testDir, 'packages', 'api', 'package.json'), JSON.stringify({
+      name: 'api',
+      dependencies: { express: '^4.0.0' },
+      scripts: { test: 'jest' }
+    }));
+    await fs.writeFile(join(testDir, 'go.work'), 'go 1.22\n\nuse (\n\t./services/auth\n)\n');
+    await fs.mkdir(join(testDir, 'services', 'auth'), { recursive: true });
+    await fs.writeFile(join(testDir, 'services', 'auth', 'go.mod'), 'module example.com/auth\n');
+    
+    const { detectWorkspaces, init } = await loadModule();
+    const workspace = await detectWorkspaces(testDir);
+    if (!workspace || workspace.orchestrator !== 'nx' || workspace.members.length !== 2) {
+      throw new Error(`Unexpected workspace detection: ${JSON.stringify(workspace)}`);
+    }
+    
+    const result = await init(testDir);
+    if (!result.success) {
+      throw new Error(`Init failed: ${result.message}`);
+    }
+    
+    const api = await fs.readFile(join(testDir, 'packages', 'api', 'AGENTS.md'), 'utf-8');
+    if (!api.includes('Express') || !api.includes('nx test api')) {
+      throw new Error('Member AGENTS.md missing framework or orchestrated command');
+    }
+    
+    const auth = await fs.readFile(join(testDir, 'services', 'auth', 'AGENTS.md'), 'utf-8');
+    if (!auth.includes('example.com/auth') || !auth.includes('Go')) {
+      throw new Error('Go workspace member AGENTS.md missing module details');
+    }
+    
+    await fs.writeFile(join(testDir, 'bun.lock'), '{}');
+    const bunWorkspace = await detectWorkspaces(testDir);
+    if (!bunWorkspace?.tools.includes('bun') || bunWorkspace.tools.includes('npm')) {
+      throw new Error(`A text bun.lock should mark the workspace as bun: ${bunWorkspace?.tools}`);
+    }
+    
+    console.log('✓ Workspace members get their own AGENTS.md');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testPackageManagers() {
+  console.log('Testing JavaScript package manager detection...');
+  const { init, detectJsPackageManager } = await loadModule();
+  const testDir = await createTempDir();
+  let count = 0;
+  const createProject = async files => {
+    const dir = join(testDir, `project-${++count}`);
+    await fs.mkdir(dir, { recursive: true });
+    for (const [path, content] of Object.entries(files)) {
+      await fs.writeFile(join(dir, path), content);
+    }
+    return dir;
+  };
+  const scripts = { dev: 'vite', test: 'vitest', build: 'vite build' };
+  
+  try {
+    const corepack = await createProject({
+      'package.json': JSON.stringify({ scripts, packageManager: 'yarn@4.1.0+sha512.abc' }),
+      'package-lock.json': '{}',
+      'yarn.lock': ''
+    });
+    const detection = await detectJsPackageManager(corepack);
+    if (detection.packageManager !== 'yarn' || detection.variant !== 'berry' || detection.version !== '4.1.0' ||
+        JSON.stringify(detection.conflicts) !== '["package-lock.json"]') {
+      throw new Error(`packageManager field should win over lockfiles: ${JSON.stringify(detection)}`);
+    }
+    
+    const result = await init(corepack, { dryRun: true });
+    const { INSTALL_COMMAND, DEV_COMMAND, TEST_COMMAND } = result.variables;
+    if (INSTALL_COMMAND !== 'yarn install' || DEV_COMMAND !== 'yarn dev' || TEST_COMMAND !== 'yarn test') {
+      throw new Error(`Yarn commands should not use "run": ${INSTALL_COMMAND}, ${DEV_COMMAND}, ${TEST_COMMAND}`);
+    }
+    if (!result.context.warnings?.some(warning => warning.includes('package-lock.json'))) {
+      throw new Error('Conflicting lockfiles should produce a warning');
+    }
+    
+    const classic = await detectJsPackageManager(await createProject({ 'package.json': '{}', 'yarn.lock': '# yarn lockfile v1\n' }));
+    const berry = await detectJsPackageManager(await createProject({ 'package.json': '{}', 'yarn.lock': '__metadata:\n  version: 8\n' }));
+    if (classic.variant !== 'classic' || berry.variant !== 'berry') {
+      throw new Error(`Yarn variants misdetected: ${classic.variant}, ${berry.variant}`);
+    }
+    
+    const bun = await init(await createProject({ 'package.json': JSON.stringify({ scripts: { dev: 'bun --watch index.ts' } }), 'bun.lock': '{}' }), { dryRun: true });
+    if (bun.context.packageManager !== 'bun' || bun.context.runtime !== 'bun' || bun.variables.TEST_COMMAND !== 'bun test') {
+      throw new Error(`Text bun.lock should select Bun: ${bun.context.packageManager}, ${bun.variables.TEST_COMMAND}`);
+    }
+    
+    const shrinkwrap = await detectJsPackageManager(await createProject({ 'package.json': '{}', 'npm-shrinkwrap.json': '{}' }));
+    if (shrinkwrap.evidence !== 'npm-shrinkwrap.json') {
+      throw new Error(`npm-shrinkwrap.json should be detected: ${shrinkwrap.evidence}`);
+    }
+    
+    const pnpm = await createProject({ 'package.json': JSON.stringify({ scripts }), 'package-lock.json': '{}' });
+    const overridden = await init(pnpm, { dryRun: true, packageManager: 'pnpm' });
+    const setting = overridden.settings.find(entry => entry.name === 'packageManager');
+    if (overridden.variables.TEST_COMMAND !== 'pnpm test' || overridden.variables.BUILD_COMMAND !== 'pnpm run build' ||
+        setting.value !== 'pnpm' || setting.source !== 'cli') {
+      throw new Error(`--package-manager override not applied: ${overridden.variables.TEST_COMMAND}, ${JSON.stringify(setting)}`);
+    }
+    
+    console.log('✓ Package managers come from corepack, lockfiles and --package-manager with matching command syntax');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testPythonProjects() {
+  console.log('Testing Python project detection...');
+  const testDir = await createTempDir();
+  
+  try {
+    const { detectProjectContext, getTemplateVariables } = await loadModule();
+    const detect = async () => {
+      const context = await detectProjectContext(testDir);
+      return { context, variables: await getTemplateVariables(context, testDir) };
+    };
+    
+    await fs.writeFile(join(testDir, 'pyproject.toml'), [
+      '[project]',
+      'name = "api"',
+      'dependencies = [',
+      '  "FastAPI[standard]>=0.110",  # web framework',
+      '  "pydantic>=2",',
+      ']',
+      '',
+      '[dependency-groups]',
+      'dev = ["pytest>=8"]',
+      '',
+      '[tool.uv]',
+      'package = true',
+      ''
+    ].join('\n'));
+    await fs.writeFile(join(testDir, 'main.py'), 'app = None\n');
+    
+    let { context, variables } = await detect();
+    if (context.packageManager !== 'uv' || context.framework !== 'FastAPI') {
+      throw new Error(`Expected uv + FastAPI, got ${context.packageManager} + ${context.framework}`);
+    }
+    if (variables.INSTALL_COMMAND !== 'uv sync' || variables.TEST_COMMAND !== 'uv run pytest' ||
+        variables.DEV_COMMAND !== 'uv run fastapi dev main.py' || variables.BUILD_COMMAND !== 'uv build') {
+      throw new Error(`Unexpected uv commands: ${JSON.stringify(variables)}`);
+    }
+    
+    await fs.writeFile(join(testDir, 'pyproject.toml'), [
+      '[tool.poetry]',
+      'name = "site"',
+      '',
+      '[tool.poetry.dependencies]',
+      'python = "^3.12"',
+      'Django = "^5.0"',
+      ''
+    ].join('\n'));
+    await fs.writeFile(join(testDir, 'poetry.lock'), '');
+    
+    ({ context, variables } = await detect());
+    if (context.packageManager !== 'poetry' || context.framework !== 'Django' ||
+        variables.TEST_COMMAND !== 'poetry run python manage.py test' ||
+        variables.DEV_COMMAND !== 'poetry run python manage.py runserver') {
+      throw new Error(`Unexpected poetry/Django detection: ${JSON.stringify(variables)}`);
+    }
+    
+    await fs.rm(join(testDir, 'poetry.lock'));
+    await fs.writeFile(join(testDir, 'pyproject.toml'), [
+      '[project]',
+      'name = "dash"',
+      'dependencies = ["streamlit"]',
+      '',
+      '[tool.hatch.envs.default]',
+      'dependencies = ["pytest"]',
+      ''
+    ].join('\n'));
+    
+    ({ context, variables } = await detect());
+    if (context.packageManager !== 'hatch' || context.framework !== 'Streamlit' ||
+        variables.TEST_COMMAND !== 'hatch test' || variables.DEV_COMMAND !== 'hatch run streamlit run main.py') {
+      throw new Error(`Unexpected hatch/Streamlit detection: ${JSON.stringify(variables)}`);
+    }
+    
+    await fs.rm(join(testDir, 'pyproject.toml'));
+    await fs.writeFile(join(testDir, 'Pipfile'), '[packages]\nflask = "*"\n\n[dev-packages]\npytest = "*"\n');
+    
+    ({ context, variables } = await detect());
+    if (context.packageManager !== 'pipenv' || context.framework !== 'Flask' ||
+        variables.INSTALL_COMMAND !== 'pipenv install --dev' || variables.TEST_COMMAND !== 'pipenv run pytest') {
+      throw new Error(`Unexpected pipenv/Flask detection: ${JSON.stringify(variables)}`);
+    }
+    
+    console.log('✓ Python package managers, frameworks and commands are detected from pyproject.toml and Pipfile');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testCompiledFrameworks() {
+  console.log('Testing Rust, Go and JVM framework detection...');
+  const { detectProjectContext, getTemplateVariables } = await loadModule();
+  const detect = async dir => {
+    const context = await detectProjectContext(dir);
+    return { framework: context.framework, variables: await getTemplateVariables(context, dir) };
+  };
+  const testDir = await createTempDir();
+  let count = 0;
+  const project = async files => {
+    const dir = join(testDir, `project-${++count}`);
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(join(dir, path, '..'), { recursive: true });
+      await fs.writeFile(join(dir, path), content);
+    }
+    return dir;
+  };
+  
+  try {
+    const rust = await detect(await project({
+      'Cargo.toml': '[package]\nname = "svc"\n\n[dependencies]\nweb = { package = "axum", version = "0.7" }\ntokio = "1"\n'
+    }));
+    if (rust.framework !== 'Axum' || rust.variables.DEV_COMMAND !== 'cargo run' || !rust.variables.HAS_FRAMEWORK) {
+      throw new Error(`Unexpected Rust detection: ${rust.framework} ${rust.variables.DEV_COMMAND}`);
+    }
+    
+    const go = await detect(await project({
+      'go.mod': 'module example.com/api\n\ngo 1.22\n\nrequire (\n\tgithub.com/labstack/echo/v4 v4.11.4\n)\n',
+      'cmd/api/main.go': 'package main\n'
+    }));
+    if (go.framework !== 'Echo' || go.variables.DEV_COMMAND !== 'go run ./cmd/api') {
+      throw new Error(`Unexpected Go detection: ${go.framework} ${go.variables.DEV_COMMAND}`);
+    }
+    
+    const spring = await detect(await project({
+      'build.gradle.kts': 'plugins {\n  id("org.springframework.boot") version "3.2.0"\n}\n',
+      'gradlew': '#!/bin/sh\n'
+    }));
+    if (spring.framework !== 'Spring Boot' || spring.variables.DEV_COMMAND !== './gradlew bootRun') {
+      throw new Error(`Unexpected Spring Boot detection: ${spring.framework} ${spring.variables.DEV_COMMAND}`);
+    }
+    
+    const quarkus = await detect(await project({
+      'pom.xml': '<project><dependencies><dependency><groupId>io.quarkus</groupId></dependency></dependencies></project>\n'
+    }));
+    if (quarkus.framework !== 'Quarkus' || quarkus.variables.DEV_COMMAND !== 'mvn quarkus:dev') {
+      throw new Error(`Unexpected Quarkus detection: ${quarkus.framework} ${quarkus.variables.DEV_COMMAND}`);
+    }
+    
+    const android = await detect(await project({
+      'settings.gradle': 'include ":app"\n',
+      'app/build.gradle': "plugins {\n  id 'com.android.application'\n}\n",
+      'gradlew': '#!/bin/sh\n'
+    }));
+    if (android.framework !== 'Android' || android.variables.BUILD_COMMAND !== './gradlew assembleDebug') {
+      throw new Error(`Unexpected Android detection: ${android.framework} ${android.variables.BUILD_COMMAND}`);
+    }
+    
+    console.log('✓ Cargo, go.mod, Maven and Gradle dependencies select a framework and its commands');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testNativeCommands() {
+  console.log('Testing commands for Rust, Go, JVM and C/C++ projects...');
+  const { detectProjectContext, getTemplateVariables, parseMakefileTargets, parseJustfileRecipes, parseTaskfileTasks } = await loadModule();
+  const testDir = await createTempDir();
+  let count = 0;
+  const commandsFor = async files => {
+    const dir = join(testDir, `project-${++count}`);
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(join(dir, path, '..'), { recursive: true });
+      await fs.writeFile(join(dir, path), content);
+    }
+    const variables = await getTemplateVariables(await detectProjectContext(dir), dir);
+    return [variables.INSTALL_COMMAND, variables.DEV_COMMAND, variables.BUILD_COMMAND, variables.TEST_COMMAND];
+  };
+  const expectCommands = (label, actual, expected) => {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+  
+  try {
+    expectCommands('Cargo workspace', await commandsFor({ 'Cargo.toml': '[workspace]\nmembers = ["crates/*"]\n' }),
+      ['cargo fetch', undefined, 'cargo build --workspace', 'cargo test --workspace']);
+    expectCommands('Go module', await commandsFor({ 'go.mod': 'module example.com/tool\n' }),
+      ['go mod download', undefined, 'go build ./...', 'go test ./...']);
+    expectCommands('Maven wrapper', await commandsFor({ 'pom.xml': '<project/>\n', 'mvnw': '' }),
+      ['./mvnw install -DskipTests', undefined, './mvnw package', './mvnw test']);
+    expectCommands('Gradle without wrapper', await commandsFor({ 'settings.gradle.kts': '' }),
+      [undefined, undefined, 'gradle build', 'gradle test']);
+    expectCommands('CMake', await commandsFor({ 'CMakeLists.txt': 'project(demo)\n' }),
+      ['cmake -S . -B build', undefined, 'cmake --build build', 'ctest --test-dir build']);
+    expectCommands('Meson', await commandsFor({ 'meson.build': "project('demo', 'c')\n" }),
+      ['meson setup builddir', undefined, 'meson compile -C builddir', 'meson test -C builddir']);
+    
+    expectCommands('Makefile targets first', await commandsFor({
+      'Cargo.toml': '[package]\nname = "cli"\n',
+      'Makefile': '.PHONY: build test\nCARGO := cargo\n\nbuild test: fmt\n\t$(CARGO) $@\n\nfmt:\n\tcargo fmt\n'
+    }), ['cargo fetch', undefined, 'make build', 'make test']);
+    expectCommands('justfile before Makefile', await commandsFor({
+      'go.mod': 'module example.com/svc\n',
+      'justfile': 'set dotenv-load := true\nalias t := test\n\n# Run the tests\ntest *args:\n  go test ./... {{args}}\n\n@serve port="8080":\n  go run .\n',
+      'Makefile': 'test:\n\tgo test ./...\nbuild:\n\tgo build\n'
+    }), ['go mod download', 'just serve', 'make build', 'just test']);
+    expectCommands('Taskfile tasks', await commandsFor({
+      'package.json': JSON.stringify({ scripts: { build: 'tsc', test: 'vitest' } }),
+      'Taskfile.yml': "version: '3'\n\ntasks:\n  dev:\n    cmds:\n      - npm run dev\n  \"test\":\n    cmds:\n      - build: skipped\n"
+    }), ['npm install', 'task dev', 'npm run build', 'task test']);
+    
+    expectCommands('parsers', [
+      parseMakefileTargets('all: a b\nx = y:z\n%.o: %.c\n\techo hi: there\n').join(),
+      parseJustfileRecipes('export A := "1"\nlint:\n  ruff: check\n').join(),
+      parseTaskfileTasks('tasks:\n  a:\n    deps: [b]\n  b: echo\nvars:\n  c: 1\n').join()
+    ], ['all', 'lint', 'a,b']);
+    
+    console.log('✓ Runtime commands use wrappers and build systems, with task runner targets taking priority');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testQualityCommands() {
+  console.log('Testing lint, format and type-check command detection...');
+  const { init } = await loadModule();
+  const testDir = await createTempDir();
+  let count = 0;
+  const variablesFor = async files => {
+    const dir = join(testDir, `project-${++count}`);
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(join(dir, path, '..'), { recursive: true });
+      await fs.writeFile(join(dir, path), content);
+    }
+    const result = await init(dir, { dryRun: true });
+    const { LINT_COMMAND, FORMAT_COMMAND, TYPECHECK_COMMAND } = result.variables;
+    return [LINT_COMMAND, FORMAT_COMMAND, TYPECHECK_COMMAND];
+  };
+  const expectCommands = (label, actual, expected) => {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+  
+  try {
+    expectCommands('eslint + prettier + tsc', await variablesFor({
+      'package.json': JSON.stringify({ name: 'web', prettier: {} }),
+      'pnpm-lock.yaml': '',
+      'eslint.config.js': 'export default [];\n',
+      'tsconfig.json': '{}'
+    }), ['pnpm exec eslint .', 'pnpm exec prettier --write .', 'pnpm exec tsc --noEmit']);
+    expectCommands('scripts win over config files', await variablesFor({
+      'package.json': JSON.stringify({ scripts: { lint: 'biome lint', 'type-check': 'tsc -b' } }),
+      'biome.json': '{}'
+    }), ['npm run lint', 'npx biome format --write .', 'npm run type-check']);
+    expectCommands('ruff + mypy through uv', await variablesFor({
+      'pyproject.toml': '[project]\nname = "svc"\n\n[tool.ruff]\nline-length = 100\n\n[tool.mypy]\nstrict = true\n',
+      'uv.lock': ''
+    }), ['uv run ruff check .', 'uv run ruff format .', 'uv run mypy .']);
+    expectCommands('Cargo', await variablesFor({ 'Cargo.toml': '[package]\nname = "x"\n' }),
+      ['cargo clippy', 'cargo fmt', 'cargo check']);
+    expectCommands('golangci-lint', await variablesFor({ 'go.mod': 'module x\n', '.golangci.yml': 'linters: {}\n' }),
+      ['golangci-lint run', 'gofmt -w .', undefined]);
+    expectCommands('spotless', await variablesFor({ 'build.gradle': 'plugins { id "com.diffplug.spotless" }\n', 'gradlew': '' }),
+      ['./gradlew spotlessCheck', './gradlew spotlessApply', undefined]);
+    expectCommands('Makefile lint target', await variablesFor({ 'Cargo.toml': '[package]\nname = "x"\n', 'Makefile': 'lint:\n\tcargo clippy -- -D warnings\n' }),
+      ['make lint', 'cargo fmt', 'cargo check']);
+    
+    const dir = join(testDir, 'project-1');
+    await init(dir);
+    const agents = await fs.readFile(join(dir, 'AGENTS.md'), 'utf-8');
+    if (!agents.includes('- Lint: `pnpm exec eslint .`') || !agents.includes('- Type-check: `pnpm exec tsc --noEmit`')) {
+      throw new Error('Lint and type-check commands missing from AGENTS.md');
+    }
+    
+    console.log('✓ Lint, format and type-check commands come from scripts, tool configs and task runners');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testPolyglotProjects() {
+  console.log('Testing polyglot repositories...');
+  const { init } = await loadModule();
+  const testDir = await createTempDir();
+  
+  try {
+    await fs.mkdir(join(testDir, 'web'));
+    await fs.mkdir(join(testDir, 'node_modules', 'left-pad'), { recursive: true });
+    await fs.writeFile(join(testDir, 'go.mod'), 'module example.com/api\n\nrequire github.com/labstack/echo/v4 v4.11.0\n');
+    await fs.writeFile(join(testDir, 'node_modules', 'left-pad', 'package.json'), '{}');
+    await fs.writeFile(join(testDir, 'web', 'package.json'), JSON.stringify({
+      scripts: { dev: 'vite', test: 'vitest' },
+      dependencies: { vue: '^3.0.0' }
+    }));
+    await fs.writeFile(join(testDir, 'web', 'yarn.lock'), '');
+    
+    const result = await init(testDir);
+    const stacks = result.context.stacks.map(stack => `${stack.runtime}:${stack.path}:${stack.packageManager}:${stack.framework}`);
+    if (JSON.stringify(stacks) !== JSON.stringify(['go:.:none:Echo', 'node:web:yarn:Vue'])) {
+      throw new Error(`Unexpected stacks: ${JSON.stringify(stacks)}`);
+    }
+    
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    for (const expected of ['### Go (Echo) in `./`', '### Node.js (Vue) in `web/`', '- Run tests: `yarn test`', '- Run tests: `go test ./...`']) {
+      if (!agents.includes(expected)) throw new Error(`AGENTS.md is missing "${expected}"`);
+    }
+    
+    const single = join(testDir, 'web');
+    const webOnly = await init(single, { dryRun: true });
+    if (webOnly.variables.IS_POLYGLOT || webOnly.variables.STACKS) {
+      throw new Error('A single-stack project should not render a Stacks section');
+    }
+    
+    const mixed = join(testDir, 'mixed');
+    await fs.mkdir(mixed);
+    await fs.writeFile(join(mixed, 'package.json'), JSON.stringify({ scripts: { build: 'vite build', test: 'vitest', lint: 'eslint .' } }));
+    await fs.writeFile(join(mixed, 'package-lock.json'), '{}');
+    await fs.writeFile(join(mixed, 'requirements.txt'), 'requests\n');
+    const { variables } = await init(mixed, { dryRun: true });
+    const scripts = variables.SCRIPTS.map(item => item.command);
+    if (variables.BUILD_COMMAND !== 'npm run build' || variables.TEST_COMMAND !== 'npm run test' ||
+        JSON.stringify(scripts) !== JSON.stringify(['npm run build', 'npm run test', 'npm run lint'])) {
+      throw new Error(`package.json scripts should run with npm next to Python: ${variables.BUILD_COMMAND}, ${variables.TEST_COMMAND}, ${scripts}`);
+    }
+    
+    console.log('✓ Each stack gets its own package manager, framework and commands scoped to its directory');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testCiCommands() {
+  console.log('Testing commands extracted from CI configuration...');
+  const { init, detectCiCommands } = await loadModule();
+  const testDir = await createTempDir();
+  
+  try {
+    const web = join(testDir, 'web');
+    await fs.mkdir(join(web, '.github', 'workflows'), { recursive: true });
+    await fs.writeFile(join(web, 'package.json'), JSON.stringify({ scripts: { dev: 'vite', test: 'vitest' } }));
+    await fs.writeFile(join(web, '.github', 'workflows', 'ci.yml'), [
+      'name: CI',
+      'on: [push]',
+      'jobs:',
+      '  verify:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '      - run: npm ci',
+      '      - run: |',
+      '          npx eslint . --max-warnings 0',
+      '          npm test -- --coverage',
+      '      - name: Build',
+      '        run: >-',
+      '          npx vite build',
+      '          --mode production',
+      '      - run: echo "done"',
+      '      - run: npm publish',
+      '        working-directory: packages/ui',
+      ''
+    ].join('\n'));
+    
+    const result = await init(web, { dryRun: true });
+    const { variables } = result;
+    const expected = {
+      INSTALL_COMMAND: 'npm install',
+      LINT_COMMAND: 'npx eslint . --max-warnings 0',
+      BUILD_COMMAND: 'npx vite build --mode production',
+      TEST_COMMAND: 'npm run test'
+    };
+    for (const [name, value] of Object.entries(expected)) {
+      if (variables[name] !== value) throw new Error(`${name} should be ${value}, got ${variables[name]}`);
+    }
+    const roles = variables.CI_COMMANDS.map(item => `${item.role}:${item.job}`);
+    if (JSON.stringify(roles) !== JSON.stringify(['install:verify', 'lint:verify', 'test:verify', 'build:verify'])) {
+      throw new Error(`Unexpected CI_COMMANDS: ${JSON.stringify(variables.CI_COMMANDS)}`);
+    }
+    
+    await fs.writeFile(join(web, '.eslintrc.json'), '{}');
+    await fs.writeFile(join(web, 'Makefile'), 'build:\n\tvite build\n');
+    const precedence = (await init(web, { dryRun: true })).variables;
+    if (precedence.LINT_COMMAND !== 'npx eslint .' || precedence.BUILD_COMMAND !== 'npx vite build --mode production') {
+      throw new Error(`Detected tools should win over CI and CI over task runners: ${precedence.LINT_COMMAND}, ${precedence.BUILD_COMMAND}`);
+    }
+    
+    const crate = join(testDir, 'crate');
+    await fs.mkdir(crate);
+    await fs.writeFile(join(crate, 'Cargo.toml'), '[package]\nname = "crate"\nversion = "0.1.0"\n');
+    await fs.writeFile(join(crate, '.gitlab-ci.yml'), [
+      'stages: [test]',
+      'default:',
+      '  before_script:',
+      '    - rustup component add clippy',
+      '.cargo: &cargo',
+      '  image: rust:1.80',
+      '  script:',
+      '    - cargo test --all-features',
+      'test:',
+      '  extends: .cargo',
+      'lint:',
+      '  script: cargo clippy -- -D warnings',
+      ''
+    ].join('\n'));
+    
+    const rust = await init(crate, { dryRun: true });
+    const rustCi = rust.variables.CI_COMMANDS.map(item => item.command);
+    if (rust.variables.TEST_COMMAND !== 'cargo test' || rust.variables.LINT_COMMAND !== 'cargo clippy' ||
+        !rustCi.includes('cargo test --all-features') || !rustCi.includes('cargo clippy -- -D warnings')) {
+      throw new Error(`Cargo.toml commands should win over GitLab CI: ${rust.variables.TEST_COMMAND}, ${rust.variables.LINT_COMMAND}`);
+    }
+    
+    const other = join(testDir, 'other');
+    await fs.mkdir(join(other, '.circleci'), { recursive: true });
+    await fs.writeFile(join(other, '.circleci', 'config.yml'), [
+      'version: 2.1',
+      'jobs:',
+      '  build:',
+      '    steps:',
+      '      - checkout',
+      '      - run: pip install -r requirements.txt',
+      '      - run:',
+      '          name: Tests',
+      '          command: pytest -q',
+      ''
+    ].join('\n'));
+    await fs.writeFile(join(other, 'azure-pipelines.yml'), [
+      'stages:',
+      '- stage: Build',
+      '  jobs:',
+      '  - job: compile',
+      '    steps:',
+      '    - script: make && ctest',
+      '    - bash: $(Build.SourcesDirectory)/deploy.sh',
+      ''
+    ].join('\n'));
+    
+    const commands = (await detectCiCommands(other)).map(({ command, role, file, job }) => `${role}:${command}:${file}:${job}`);
+    const expectedCommands = [
+      'install:pip install -r requirements.txt:.circleci/config.yml:build',
+      'test:pytest -q:.circleci/config.yml:build',
+      'build:make:azure-pipelines.yml:compile',
+      'test:ctest:azure-pipelines.yml:compile'
+    ];
+    if (JSON.stringify(commands) !== JSON.stringify(expectedCommands)) {
+      throw new Error(`Unexpected CircleCI and Azure commands: ${JSON.stringify(commands)}`);
+    }
+    
+    console.log('✓ CI steps fill in install, lint, build and test commands missing from package.json and manifests');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testTestRunners() {
+  console.log('Testing test runner recipes...');
+  const { init } = await loadModule();
+  const testDir = await createTempDir();
+  
+  try {
+    const web = join(testDir, 'web');
+    await fs.mkdir(join(web, 'src', '__tests__'), { recursive: true });
+    await fs.mkdir(join(web, 'node_modules', 'dep'), { recursive: true });
+    await fs.writeFile(join(web, 'package.json'), JSON.stringify({
+      scripts: { test: 'vitest run' },
+      devDependencies: { vitest: '^2.0.0', jest: '^29.0.0' }
+    }));
+    await fs.writeFile(join(web, 'pnpm-lock.yaml'), '');
+    for (const file of ['src/a.test.ts', 'src/b.test.ts', 'src/__tests__/c.js', 'node_modules/dep/d.spec.js']) {
+      await fs.writeFile(join(web, file), '');
+    }
+    
+    const { variables } = await init(web, { dryRun: true });
+    const expected = {
+      TEST_RUNNER: 'Vitest',
+      TEST_FILE_COMMAND: 'pnpm exec vitest run <file>',
+      TEST_NAME_COMMAND: 'pnpm exec vitest run <file> -t "<name>"',
+      TEST_WATCH_COMMAND: 'pnpm exec vitest',
+      TEST_COVERAGE_COMMAND: 'pnpm exec vitest run --coverage'
+    };
+    for (const [name, value] of Object.entries(expected)) {
+      if (variables[name] !== value) throw new Error(`${name} should be ${value}, got ${variables[name]}`);
+    }
+    if (JSON.stringify(variables.TEST_FILE_PATTERNS) !== JSON.stringify(['*.test.ts', '__tests__/*.js'])) {
+      throw new Error(`Unexpected TEST_FILE_PATTERNS: ${JSON.stringify(variables.TEST_FILE_PATTERNS)}`);
+    }
+    
+    const api = join(testDir, 'api');
+    await fs.mkdir(join(api, 'tests'), { recursive: true });
+    await fs.writeFile(join(api, 'pyproject.toml'), [
+      '[project]',
+      'name = "api"',
+      '',
+      '[dependency-groups]',
+      'dev = ["pytest>=8", "pytest-cov"]',
+      ''
+    ].join('\n'));
+    await fs.writeFile(join(api, 'uv.lock'), '');
+    await fs.writeFile(join(api, 'tests', 'test_api.py'), '');
+    
+    const python = await init(api);
+    if (python.variables.TEST_NAME_COMMAND !== 'uv run pytest <file>::<name>' ||
+        python.variables.TEST_COVERAGE_COMMAND !== 'uv run pytest --cov' ||
+        python.variables.TEST_WATCH_COMMAND !== undefined) {
+      throw new Error(`Unexpected pytest recipes: ${JSON.stringify(python.variables)}`);
+    }
+    const pythonAgents = await fs.readFile(join(api, 'AGENTS.md'), 'utf-8');
+    for (const line of ['Tests run with pytest.', '- One test by name: `uv run pytest <file>::<name>`', '- Test files are named test_*.py']) {
+      if (!pythonAgents.includes(line)) throw new Error(`AGENTS.md is missing "${line}"`);
+    }
+    
+    const service = join(testDir, 'service');
+    await fs.mkdir(service);
+    await fs.writeFile(join(service, 'go.mod'), 'module example.com/service\n');
+    const go = await init(service, { dryRun: true });
+    if (go.variables.TEST_NAME_COMMAND !== "go test ./<package> -run '^<name>$'" || go.variables.TEST_FILE_PATTERNS) {
+      throw new Error(`Unexpected go test recipes: ${go.variables.TEST_NAME_COMMAND}`);
+    }
+    
+    console.log('✓ Test runners get file, name, watch and coverage recipes plus the test file naming in use');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testProjectStructure() {
+  console.log('Testing the project structure map...');
+  const { init, renderProjectStructure } = await loadModule();
+  const testDir = await createTempDir();
+  
+  try {
+    for (const dir of ['src', 'docs/drafts', 'db/migrations', 'cmd/api', 'generated', 'node_modules/dep', 'dist', 'many', '.cache']) {
+      await fs.mkdir(join(testDir, dir), { recursive: true });
+    }
+    await fs.writeFile(join(testDir, '.gitignore'), '# build output\n/generated/\n*.log\n!keep.log\n');
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ main: './src/index.js', bin: { tool: 'src/cli.js' } }));
+    await fs.writeFile(join(testDir, 'go.mod'), 'module example.com/tool\n');
+    await fs.writeFile(join(testDir, 'docs', '.gitignore'), 'drafts/\n');
+    for (const file of ['src/index.js', 'src/cli.js', 'cmd/api/main.go', 'db/migrations/001_init.sql', 'debug.log', 'keep.log',
+      'generated/out.txt', 'node_modules/dep/index.js', 'dist/index.js', '.cache/entry', 'docs/guide.md', 'docs/drafts/idea.md']) {
+      await fs.writeFile(join(testDir, file), '');
+    }
+    for (let i = 0; i < 25; i++) {
+      await fs.writeFile(join(testDir, 'many', `file-${String(i).padStart(2, '0')}.txt`), '');
+    }
+    
+    const { variables } = await init(testDir);
+    const structure = variables.PROJECT_STRUCTURE;
+    for (const line of [
+      'cmd/  # command entry points',
+      '    main.go  # entry point',
+      'db/\n  migrations/  # database migrations\n    001_init.sql',
+      'docs/  # documentation\n  guide.md',
+      '  file-19.txt\n  ... 5 more\nsrc/  # source code',
+      '  cli.js  # CLI entry point (package.json bin)',
+      '  index.js  # entry point (package.json main)',
+      'keep.log'
+    ]) {
+      if (!structure.includes(line)) throw new Error(`PROJECT_STRUCTURE is missing "${line}":\n${structure}`);
+    }
+    for (const hidden of ['generated', 'node_modules', 'dist/', '.cache', 'debug.log', '.gitignore', 'drafts']) {
+      if (structure.includes(hidden)) throw new Error(`PROJECT_STRUCTURE should skip ${hidden}:\n${structure}`);
+    }
+    
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!agents.includes('## Project Structure\n\n```text\ncmd/')) {
+      throw new Error('AGENTS.md should include the project structure');
+    }
+    
+    const small = await renderProjectStructure(testDir, { budget: 80 });
+    if (!small.endsWith('... (truncated)') || small.length > 80 + '\n... (truncated)'.length) {
+      throw new Error(`Structure budget not applied:\n${small}`);
+    }
+    
+    if (process.getuid?.() !== 0) {
+      await fs.chmod(join(testDir, 'cmd', 'api'), 0o000);
+      const partial = await renderProjectStructure(testDir);
+      await fs.chmod(join(testDir, 'cmd', 'api'), 0o755);
+      if (!partial.includes('  api/') || !partial.includes('src/  # source code')) {
+        throw new Error(`An unreadable directory should not end the walk:\n${partial}`);
+      }
+    }
+    
+    console.log('✓ Structure map respects .gitignore, skips build folders, annotates folders and entry points and stays in budget');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testTemplateOverrides() {
+  console.log('Testing user template directories...');
+  const testDir = await createTempDir();
+  const templateDir = `${testDir}-templates`;
+  
+  try {
+    await fs.mkdir(join(templateDir, 'docs'), { recursive: true });
+    await fs.writeFile(join(templateDir, 'AGENTS.md.tmpl'), '# AGENTS.md\n\nHouse template for {{PROJECT_NAME}}\n');
+    await fs.writeFile(join(templateDir, 'docs', 'ONBOARDING.md'), 'Runtime: {{RUNTIME}}\n');
+    
+    await fs.mkdir(join(testDir, '.codex', 'templates'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex', 'templates', 'REVIEW.md.tmpl'), 'Review checklist for {{PROJECT_NAME}}\n');
+    
+    const { init } = await loadModule();
+    const result = await init(testDir, { templateDir });
+    if (!result.success) {
+      throw new Error(`Init with templates failed: ${result.message}`);
+    }
+    
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!agents.includes('House template for') || agents.includes('## Setup Commands')) {
+      throw new Error('--template did not override bundled AGENTS.md');
+    }
+    
+    const onboarding = await fs.readFile(join(testDir, 'docs', 'ONBOARDING.md'), 'utf-8');
+    const review = await fs.readFile(join(testDir, 'REVIEW.md'), 'utf-8');
+    if (!onboarding.includes('Runtime: Unknown') || !review.includes('Review checklist for')) {
+      throw new Error('Extra templates were not rendered');
+    }
+    
+    const missing = await init(testDir, { templateDir: join(templateDir, 'nope') });
+    if (missing.success || missing.errorCode !== 'INVALID_TEMPLATE') {
+      throw new Error('Missing template directory should fail with INVALID_TEMPLATE');
+    }
+    
+    await fs.writeFile(join(templateDir, 'evil.md.tmpl'), Buffer.from([0x00, 0x01]));
+    const binary = await init(testDir, { templateDir });
+    if (binary.success || binary.errorCode !== 'INVALID_TEMPLATE') {
+      throw new Error('Binary template should fail validation');
+    }
+    
+    console.log('✓ Template directories override and extend the bundled skeleton');
+  } finally {
+    await cleanup(testDir);
+    await cleanup(templateDir);
+  }
+}
+
+async function testCustomVariables() {
+  console.log('Testing custom template variables...');
+  const testDir = await createTempDir();
+  
+  try {
+    await fs.mkdir(join(testDir, '.codex', 'templates'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, '.codex', 'templates', 'AGENTS.md.tmpl'),
+      '# {{PROJECT_NAME}}\n\nSlack: {{SLACK_CHANNEL}}\nOn-call: {{ONCALL_ROTATION}}\n{{#DEPLOY_DOCS}}Deploy docs available{{/DEPLOY_DOCS}}\n'
+    );
+    await fs.writeFile(join(testDir, 'create-codex.config.json'), JSON.stringify({
+      variables: {
+        SLACK_CHANNEL: { default: '#general', pattern: '^#', maxLength: 40 },
+        ONCALL_ROTATION: 'platform-primary',
+        DEPLOY_DOCS: true
+      }
+    }));
+    
+    const { init, check } = await loadModule();
+    const result = await init(testDir, { variables: { SLACK_CHANNEL: '#team-{{web}}' } });
+    if (!result.success) {
+      throw new Error(`Init with custom variables failed: ${result.message}`);
+    }
+    
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!agents.includes('Slack: #team-\\{\\{web\\}\\}') || !agents.includes('On-call: platform-primary')) {
+      throw new Error('Custom variables were not rendered and sanitised');
+    }
+    if (!agents.includes('Deploy docs available')) {
+      throw new Error('Boolean custom variable did not drive its section');
+    }
+    
+    const inSync = await check(testDir, { variables: { SLACK_CHANNEL: '#team-{{web}}' } });
+    if (!inSync.success || inSync.files.find(file => file.path === 'AGENTS.md')?.status !== 'in-sync') {
+      throw new Error('check should render the same custom variables as init');
+    }
+    
+    const badPattern = await init(testDir, { variables: { SLACK_CHANNEL: 'team-web' } });
+    if (badPattern.success || badPattern.errorCode !== 'INVALID_VARIABLE') {
+      throw new Error('Value violating the declared pattern should fail with INVALID_VARIABLE');
+    }
+    
+    const builtin = await init(testDir, { variables: { PROJECT_NAME: 'override' } });
+    if (builtin.success || builtin.errorCode !== 'INVALID_VARIABLE') {
+      throw new Error('Redeclaring a built-in variable should fail with INVALID_VARIABLE');
+    }
+    
+    await fs.writeFile(join(testDir, 'create-codex.config.json'), JSON.stringify({
+      variables: { SLACK_CHANNEL: { maxLength: 'long' } }
+    }));
+    const badConfig = await init(testDir);
+    if (badConfig.success || badConfig.errorCode !== 'INVALID_CONFIG' ||
+        !badConfig.message.includes('variables.SLACK_CHANNEL.maxLength')) {
+      throw new Error('Invalid config should fail with INVALID_CONFIG naming the offending key');
+    }
+    
+    console.log('✓ Custom variables are declared, validated and sanitised');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testConfigFile() {
+  console.log('Testing project config file...');
+  const rootDir = await createTempDir();
+  const testDir = join(rootDir, 'app');
+  
+  try {
+    await fs.mkdir(join(rootDir, 'templates'), { recursive: true });
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'cfg-app', scripts: { test: 'jest' } }));
+    await fs.writeFile(
+      join(rootDir, 'templates', 'AGENTS.md.tmpl'),
+      '# {{PROJECT_NAME}}\n\nPM: {{PACKAGE_MANAGER}}\nFramework: {{FRAMEWORK}}\nTest: {{TEST_COMMAND}}\n'
+    );
+    await fs.writeFile(join(rootDir, 'create-codex.config.json'), JSON.stringify({
+      $schema: './schema/create-codex.schema.json',
+      packageManager: 'pnpm',
+      framework: 'Remix',
+      commands: { test: 'pnpm vitest run' },
+      templateDir: './templates',
+      outputs: ['AGENTS.md'],
+      merge: 'adopt',
+      backup: { enabled: false }
+    }));
+    await fs.writeFile(join(testDir, 'AGENTS.md'), 'hand-written notes\n');
+    
+    const { init } = await loadModule();
+    const preview = await init(testDir, { dryRun: true, mergeMode: 'append' });
+    if (!preview.success || !preview.configPath?.endsWith('create-codex.config.json')) {
+      throw new Error(`Config file was not discovered upwards: ${preview.message}`);
+    }
+    const settings = Object.fromEntries(preview.settings.map(setting => [setting.name, setting]));
+    if (settings.packageManager.source !== 'config' || settings.packageManager.value !== 'pnpm' ||
+        settings.runtime.source !== 'detected' || settings.merge.source !== 'cli' ||
+        settings['commands.test'].value !== 'pnpm vitest run') {
+      throw new Error('Dry run did not report the merged configuration');
+    }
+    
+    const result = await init(testDir);
+    if (!result.success) {
+      throw new Error(`Init with config failed: ${result.message}`);
+    }
+    
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!agents.includes('PM: PNPM') || !agents.includes('Framework: Remix') ||
+        !agents.includes('Test: pnpm vitest run') || agents.includes('hand-written notes')) {
+      throw new Error('Config overrides were not applied');
+    }
+    
+    const entries = await fs.readdir(testDir);
+    if (entries.includes('.codex') || entries.some(entry => entry.startsWith('.create-codex-backup-'))) {
+      throw new Error('outputs and backup settings were not respected');
+    }
+    
+    await fs.writeFile(join(testDir, '.create-codexrc'), JSON.stringify({ commands: { tset: 'jest' }, runtime: 'cobol' }));
+    const invalid = await init(testDir);
+    if (invalid.success || invalid.errorCode !== 'INVALID_CONFIG' ||
+        !invalid.message.includes('commands.tset') || !invalid.message.includes('runtime')) {
+      throw new Error('Schema violations should fail with INVALID_CONFIG naming each key');
+    }
+    
+    console.log('✓ Config file is discovered, validated and merged with flags and detection');
+  } finally {
+    await cleanup(rootDir);
+  }
+}
+
+function scriptedStreams(answers) {
+  const { PassThrough } = require('node:stream');
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let transcript = '';
+  
+  output.on('data', chunk => {
+    transcript += chunk.toString();
+    if (/: $/.test(transcript)) {
+      transcript += '\n';
+      const answer = answers.shift();
+      setImmediate(() => answer === undefined ? input.end() : input.write(`${answer}\n`));
+    }
+  });
+  
+  return { input, output, transcript: () => transcript };
+}
+
+async function testWizard() {
+  console.log('Testing interactive wizard...');
   const testDir = await createTempDir();
   
   try {
-    const existingAgentsContent = '# My Custom AGENTS.md\n\nThis is my existing documentation.';
-    const existingConfigContent = '# My custom config\nproject = "test"';
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'wizard-app' }));
+    const { init, runWizard, saveWizardAnswers, WizardCancelledError } = await loadModule();
     
-    await fs.writeFile(join(testDir, 'AGENTS.md'), existingAgentsContent);
-    await fs.mkdir(join(testDir, '.codex'), { recursive: true });
-    await fs.writeFile(join(testDir, '.codex', 'config.toml'), existingConfigContent);
+    const preview = await init(testDir, { dryRun: true });
+    const configPath = join(testDir, 'create-codex.config.json');
+    const streams = scriptedStreams(['', 'Billing service', 'yarnn', 'yarn', '', '', '', 'yarn dev', '', '', 'y']);
+    const { overrides, save } = await runWizard(preview.settings, { ...streams, configPath });
+    
+    if (overrides.projectName !== undefined || overrides.purpose !== 'Billing service' ||
+        overrides.packageManager !== 'yarn' || overrides.commands?.dev !== 'yarn dev' || !save) {
+      throw new Error(`Unexpected wizard answers: ${JSON.stringify(overrides)}`);
+    }
+    if (!streams.transcript().includes('must be one of')) {
+      throw new Error('Invalid choice should be rejected and asked again');
+    }
+    
+    await saveWizardAnswers(configPath, overrides);
+    const result = await init(testDir, { overrides });
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    if (!result.success || !agents.includes('Billing service') || !agents.includes('yarn dev')) {
+      throw new Error('Wizard answers were not applied');
+    }
+    
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    if (saved.packageManager !== 'yarn' || saved.commands.dev !== 'yarn dev') {
+      throw new Error('Wizard answers were not saved to the config file');
+    }
+    
+    const before = (await fs.readdir(testDir)).sort().join(',');
+    const cancelled = await runWizard(preview.settings, scriptedStreams(['', 'Other purpose'])).catch(error => error);
+    if (!(cancelled instanceof WizardCancelledError)) {
+      throw new Error('Closing input mid-wizard should cancel it');
+    }
+    if ((await fs.readdir(testDir)).sort().join(',') !== before) {
+      throw new Error('Cancelled wizard must not touch the directory');
+    }
+    
+    console.log('✓ Wizard confirms, edits and saves detected values');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testBackups() {
+  console.log('Testing backup list, restore and prune...');
+  const testDir = await createTempDir();
+  const externalDir = `${testDir}-backups`;
+  
+  try {
+    const { init, listBackups, restore, pruneBackups } = await loadModule();
+    await fs.writeFile(join(testDir, 'AGENTS.md'), 'original notes\n');
+    
+    for (let i = 0; i < 3; i++) {
+      const result = await init(testDir, { mergeMode: 'adopt' });
+      if (!result.success) {
+        throw new Error(`Init ${i + 1} failed: ${result.message}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    
+    const listed = await listBackups(testDir);
+    if (!listed.success || listed.backups.length !== 3 || !listed.backups.every(backup => backup.verifiable)) {
+      throw new Error(`Expected three verifiable backups, got ${listed.backups.length}`);
+    }
+    const oldest = listed.backups[2];
+    if (!oldest.files.includes('AGENTS.md') || listed.backups[0].id <= oldest.id) {
+      throw new Error('Backups should be listed newest first with their files');
+    }
+    
+    await fs.writeFile(join(oldest.path, 'AGENTS.md'), 'tampered\n');
+    const tampered = await restore(testDir, { id: oldest.id });
+    if (tampered.success || tampered.errorCode !== 'BACKUP_VERIFICATION_FAILED') {
+      throw new Error('Restoring a modified backup should fail verification');
+    }
+    await fs.writeFile(join(oldest.path, 'AGENTS.md'), 'original notes\n');
+    
+    const restored = await restore(testDir, { id: oldest.id });
+    if (!restored.success || !restored.restored.includes('AGENTS.md') || !restored.safetyBackupDir) {
+      throw new Error(`Restore failed: ${restored.message}`);
+    }
+    if (await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8') !== 'original notes\n') {
+      throw new Error('Restore did not bring back the original file');
+    }
+    
+    const missing = await restore(testDir, { id: '1999-01-01T00-00-00-000Z' });
+    if (missing.success || missing.errorCode !== 'BACKUP_NOT_FOUND') {
+      throw new Error('Unknown backup ids should fail with BACKUP_NOT_FOUND');
+    }
+    
+    const pruned = await pruneBackups(testDir, { keep: 1 });
+    if (!pruned.success || pruned.removed.length !== 3 || (await listBackups(testDir)).backups.length !== 1) {
+      throw new Error(`Prune did not keep exactly one backup: ${pruned.message}`);
+    }
+    
+    await init(testDir, { backup: { dir: externalDir } });
+    const external = await listBackups(testDir, { backupDir: externalDir });
+    if (external.backups.length !== 1 || (await listBackups(testDir)).backups.length !== 1) {
+      throw new Error('--backup-dir should place backups outside the project');
+    }
+    
+    await init(testDir, { backup: { enabled: false } });
+    if ((await listBackups(testDir)).backups.length !== 1) {
+      throw new Error('--no-backup should not create a backup');
+    }
+    
+    console.log('✓ Backups are listed, verified, restored and pruned');
+  } finally {
+    await cleanup(testDir);
+    await cleanup(externalDir);
+  }
+}
+
+async function testTransactionRollback() {
+  console.log('Testing rollback across every file in a run...');
+  const testDir = await createTempDir();
+  const projectDir = join(testDir, 'project');
+  const templateDir = join(testDir, 'templates');
+  
+  try {
+    await fs.mkdir(join(projectDir, 'AGENTS.md'), { recursive: true });
+    await fs.writeFile(join(projectDir, 'AGENTS.md', 'keep.txt'), 'not a file');
+    await fs.mkdir(join(templateDir, '.codex'), { recursive: true });
+    await fs.writeFile(join(templateDir, '.codex', 'notes.md'), 'Notes for {{PROJECT_NAME}}\n');
     
     const { init } = await loadModule();
-    const result = await init(testDir);
+    const result = await init(projectDir, { templateDir });
+    if (result.success) {
+      throw new Error('Init should fail when AGENTS.md cannot be written');
+    }
+    if (result.rollbackFailures) {
+      throw new Error(`Rollback reported failures: ${JSON.stringify(result.rollbackFailures)}`);
+    }
+    
+    const entries = await fs.readdir(projectDir);
+    if (entries.length !== 1 || entries[0] !== 'AGENTS.md') {
+      throw new Error(`Files from the failed run were left behind: ${entries.join(', ')}`);
+    }
+    if (await fs.readFile(join(projectDir, 'AGENTS.md', 'keep.txt'), 'utf-8') !== 'not a file') {
+      throw new Error('Existing content was not restored');
+    }
+    
+    console.log('✓ A failed run leaves the project exactly as it was');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testJsonOutput() {
+  console.log('Testing --json output...');
+  const testDir = await createTempDir();
+  
+  try {
+    const { execFileSync } = require('node:child_process');
+    const { createHash } = require('node:crypto');
+    const cli = join(__dirname, '..', 'dist', 'cli.js');
+    const run = () => JSON.parse(execFileSync(process.execPath, [cli, testDir, '--json'], { encoding: 'utf-8' }));
+    
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'json-app' }));
+    
+    const first = run();
+    const created = first.files.created.find(file => file.path === 'AGENTS.md');
+    if (!first.success || first.errorCode !== null || !created ||
+        first.files.updated.length !== 0 || first.backupDir !== null) {
+      throw new Error(`Unexpected first report: ${JSON.stringify(first.files)}`);
+    }
+    
+    const second = run();
+    const agents = await fs.readFile(join(testDir, 'AGENTS.md'));
+    const hash = createHash('sha256').update(agents).digest('hex');
+    const updated = second.files.updated.find(file => file.path === 'AGENTS.md');
+    if (updated?.sha256 !== hash || second.files.created.length !== 0) {
+      throw new Error('Updated files should be reported with the hash of the written content');
+    }
+    const backedUp = second.files.backedUp.find(file => file.path === 'AGENTS.md');
+    if (!second.backupDir || backedUp?.sha256 !== created.sha256) {
+      throw new Error('Backed-up files should be reported with their hashes');
+    }
+    const projectName = require('node:path').basename(testDir);
+    if (second.context?.runtime !== 'node' || second.variables?.PROJECT_NAME !== projectName) {
+      throw new Error('Report should include the detected context and final variables');
+    }
+    
+    const blocked = join(testDir, 'package.json', 'nested');
+    let failure;
+    try {
+      execFileSync(process.execPath, [cli, blocked, '--json'], { encoding: 'utf-8', stdio: 'pipe' });
+    } catch (error) {
+      failure = error;
+    }
+    const report = failure && JSON.parse(failure.stdout);
+    if (failure?.status !== 1 || report.success || report.errorCode !== 'INVALID_TARGET_DIRECTORY') {
+      throw new Error('An uncreatable target directory should produce a JSON error report and exit 1');
+    }
+    
+    console.log('✓ --json prints a single machine-readable report');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testDetectCommand() {
+  console.log('Testing the detect command...');
+  const testDir = await createTempDir();
+  
+  try {
+    const { execFileSync } = require('node:child_process');
+    const { detect } = await loadModule();
+    const cli = join(__dirname, '..', 'dist', 'cli.js');
+    
+    await fs.mkdir(join(testDir, 'src'));
+    await fs.writeFile(join(testDir, 'Makefile'), 'all:\n\tnode src/index.js\n');
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({
+      description: 'Explained app',
+      scripts: { test: 'node --test' },
+      dependencies: { express: '^4.0.0' }
+    }));
+    await fs.writeFile(join(testDir, 'create-codex.config.json'), JSON.stringify({ commands: { test: 'npm run test:ci' } }));
+    
+    const result = await detect(testDir);
+    const field = name => result.fields.find(entry => entry.name === name);
+    const variable = name => result.variables.find(entry => entry.name === name);
+    
+    const runtime = field('runtime');
+    if (runtime.value !== 'node' || runtime.source !== 'package.json' ||
+        !runtime.candidates.some(candidate => candidate.value === 'c/c++' && candidate.source === 'Makefile and src/')) {
+      throw new Error(`Runtime should list its evidence and losing candidates: ${JSON.stringify(runtime)}`);
+    }
+    if (field('framework').source !== 'package.json dependency "express"') {
+      throw new Error(`Framework evidence missing: ${JSON.stringify(field('framework'))}`);
+    }
+    if (variable('PURPOSE').source !== 'package.json description') {
+      throw new Error(`PURPOSE source missing: ${JSON.stringify(variable('PURPOSE'))}`);
+    }
+    const test = variable('TEST_COMMAND');
+    if (test.value !== 'npm run test:ci' || test.origin !== 'config' ||
+        test.candidates[0]?.value !== 'npm run test' || test.candidates[0]?.source !== 'package.json scripts.test') {
+      throw new Error(`Config overrides should show the detected value as a losing candidate: ${JSON.stringify(test)}`);
+    }
+    
+    const json = JSON.parse(execFileSync(process.execPath, [cli, 'detect', testDir, '--json'], { encoding: 'utf-8' }));
+    if (!json.success || json.context.runtime !== 'node' || json.variables.length !== result.variables.length) {
+      throw new Error('detect --json should print the same explanation');
+    }
+    if (json.context.stacks[0].runtime !== json.context.runtime || json.context.packageManager !== 'npm') {
+      throw new Error(`Runtime should agree with the first stack: ${JSON.stringify(json.context.stacks)}`);
+    }
+    const table = execFileSync(process.execPath, [cli, 'detect', testDir], { encoding: 'utf-8' });
+    if (!table.includes('package.json') || !table.includes('✗ c/c++ (Makefile and src/)')) {
+      throw new Error(`detect should print a table with losing candidates:\n${table}`);
+    }
+    const structure = variable('PROJECT_STRUCTURE').value;
+    const lineCount = structure.split('\n').length;
+    if (lineCount < 2 || !new RegExp(`^  PROJECT_STRUCTURE +\\(${lineCount} lines\\) +directory tree`, 'm').test(table) ||
+        table.includes('src/  # source code')) {
+      throw new Error(`Multi-line values should be summarized in the detect table:\n${table}`);
+    }
     
+    console.log('✓ detect explains every context field and variable with its source and losing candidates');
+  } finally {
+    await cleanup(testDir);
+  }
+}
+
+async function testAgentFiles() {
+  console.log('Testing companion files for other agents...');
+  const testDir = await createTempDir();
+  
+  try {
+    const { init, check } = await loadModule();
+    const agents = ['claude', 'gemini:copy', 'copilot', 'cursor', 'windsurf:pointer', 'aider'];
+    const result = await init(testDir, { agents });
     if (!result.success) {
-      throw new Error(`Init with existing files failed: ${result.message}`);
+      throw new Error(`Init with --agents failed: ${result.message}`);
     }
     
-    const backupDirs = await fs.readdir(testDir);
-    const backupDir = backupDirs.find(dir => dir.startsWith('.create-codex-backup-'));
+    const read = file => fs.readFile(join(testDir, file), 'utf-8');
+    const agentsMd = await read('AGENTS.md');
     
-    if (!backupDir) {
-      throw new Error('Backup directory was not created');
+    if (!(await read('CLAUDE.md')).includes('@AGENTS.md')) {
+      throw new Error('CLAUDE.md should point at AGENTS.md by default');
+    }
+    if (await read('GEMINI.md') !== agentsMd || await read('.github/copilot-instructions.md') !== agentsMd) {
+      throw new Error('Copy mode should render the same content as AGENTS.md');
     }
     
-    const backupAgentsFile = join(testDir, backupDir, 'AGENTS.md');
-    const backupAgentsContent = await fs.readFile(backupAgentsFile, 'utf-8');
+    const rule = await read('.cursor/rules/create-codex.mdc');
+    if (!rule.startsWith('---\ndescription:') || !rule.includes('alwaysApply: true') ||
+        !rule.includes('<!-- create-codex:begin main -->')) {
+      throw new Error('Cursor rule should start with frontmatter followed by a managed region');
+    }
+    if (!(await read('.windsurfrules')).includes('<!-- create-codex:begin main -->')) {
+      throw new Error('.windsurfrules should use managed regions');
+    }
+    if (!(await read('.aider.conf.yml')).includes('read:\n  - CONVENTIONS.md') ||
+        await read('CONVENTIONS.md') !== agentsMd) {
+      throw new Error('aider should get CONVENTIONS.md and a read: entry');
+    }
     
-    if (backupAgentsContent !== existingAgentsContent) {
-      throw new Error(`Backup content mismatch.\nExpected: ${existingAgentsContent}\nGot: ${backupAgentsContent}`);
+    await fs.writeFile(join(testDir, '.cursor/rules/create-codex.mdc'), rule.replace('alwaysApply: true', 'alwaysApply: false'));
+    await init(testDir, { agents });
+    if (!(await read('.cursor/rules/create-codex.mdc')).includes('alwaysApply: false')) {
+      throw new Error('Edits to the frontmatter outside the managed region should survive re-runs');
     }
     
-    const backupConfigFile = join(testDir, backupDir, '.codex', 'config.toml');
-    const backupConfigExists = await fs.access(backupConfigFile).then(() => true).catch(() => false);
+    const drift = await check(testDir, { agents });
+    if (!drift.success || drift.files.length !== 9) {
+      throw new Error(`check should cover every companion file, got ${drift.files.length}`);
+    }
     
-    if (backupConfigExists) {
-      const backupConfigContent = await fs.readFile(backupConfigFile, 'utf-8');
-      if (backupConfigContent !== existingConfigContent) {
-        throw new Error(`Config backup mismatch.\nExpected: ${existingConfigContent}\nGot: ${backupConfigContent}`);
+    const invalid = await init(testDir, { agents: ['vim'] });
+    if (invalid.success || invalid.errorCode !== 'INVALID_CONFIG' || !invalid.message.includes('INVALID AGENT')) {
+      throw new Error('Unknown agents should be rejected');
+    }
+    
+    console.log('✓ Companion files are rendered as copies or pointers to AGENTS.md');
+  } finally {
+    await cleanup(testDir);
+  }
+  
+  const aiderDir = await createTempDir();
+  try {
+    const { init, check, parseYaml } = await loadModule();
+    const configPath = join(aiderDir, '.aider.conf.yml');
+    await fs.writeFile(configPath, 'model: sonnet\nread: [docs/STYLE.md]\nauto-commits: false\n');
+    
+    const result = await init(aiderDir, { agents: ['aider:pointer'] });
+    const merged = await fs.readFile(configPath, 'utf-8');
+    const config = parseYaml(merged);
+    if (!result.success || JSON.stringify(config.read) !== '["docs/STYLE.md","CONVENTIONS.md","AGENTS.md"]' ||
+        config.model !== 'sonnet' || config['auto-commits'] !== false || merged.match(/^read:/gm).length !== 1) {
+      throw new Error(`An existing read: list should be extended in place, got:\n${merged}`);
+    }
+    
+    await init(aiderDir, { agents: ['aider:pointer'] });
+    const drift = await check(aiderDir, { agents: ['aider:pointer'] });
+    if (await fs.readFile(configPath, 'utf-8') !== merged || !drift.success) {
+      throw new Error('Re-running init should leave a merged .aider.conf.yml unchanged');
+    }
+    
+    console.log('✓ aider entries are merged into an existing read: list');
+  } finally {
+    await cleanup(aiderDir);
+  }
+}
+
+async function testCodexConfig() {
+  console.log('Testing .codex/config.toml generation...');
+  const testDir = await createTempDir();
+  
+  try {
+    await fs.writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'cfg', scripts: { test: 'vitest', build: 'tsc' } }));
+    await fs.writeFile(join(testDir, 'create-codex.config.json'), JSON.stringify({
+      codex: {
+        approvalPolicy: 'on-failure',
+        writableRoots: ['../shared'],
+        shellEnvironment: { inherit: 'none', set: { 'GREETING': 'say "hi"\\now\n' } }
       }
+    }));
+    
+    const { init, parseToml } = await loadModule();
+    const result = await init(testDir, { codex: { sandboxMode: 'workspace-write', networkAccess: true } });
+    if (!result.success) {
+      throw new Error(`Init failed: ${result.message}`);
     }
     
-    const newAgentsContent = await fs.readFile(join(testDir, 'AGENTS.md'), 'utf-8');
+    const config = await fs.readFile(join(testDir, '.codex', 'config.toml'), 'utf-8');
+    const expected = [
+      '# Codex Configuration',
+      'approval_policy = "on-failure"',
+      'sandbox_mode = "workspace-write"',
+      `  ${JSON.stringify(join(testDir, '..', 'shared'))},`,
+      'network_access = true',
+      'inherit = "none"',
+      'set = { GREETING = "say \\"hi\\"\\\\now\\n" }'
+    ];
+    const missing = expected.filter(line => !config.includes(line));
+    if (missing.length > 0) {
+      throw new Error(`config.toml is missing: ${missing.join(' | ')}`);
+    }
+    if (config.includes('[commands]') || config.includes('npm run')) {
+      throw new Error('config.toml should not pre-approve detected commands');
+    }
     
-    if (newAgentsContent === existingAgentsContent) {
-      throw new Error('AGENTS.md was not replaced with new content');
+    await init(testDir, { codex: { sandboxMode: 'read-only' } });
+    if ((await fs.readFile(join(testDir, '.codex', 'config.toml'), 'utf-8')).includes('[sandbox_workspace_write]')) {
+      throw new Error('read-only sandbox should not write workspace-write settings');
     }
     
-    console.log('✓ Backup mechanism preserves exact user data');
+    const existingDir = await createTempDir();
+    try {
+      const existingConfig = join(existingDir, '.codex', 'config.toml');
+      await fs.mkdir(join(existingDir, '.codex'), { recursive: true });
+      await fs.writeFile(existingConfig, 'model = "o3"\n\n[shell_environment_policy]\ninherit = "all"\n');
+      await init(existingDir);
+      const merged = await fs.readFile(existingConfig, 'utf-8');
+      const parsed = parseToml(merged);
+      if (parsed.model !== 'o3' || parsed.approval_policy !== 'on-request' || parsed.shell_environment_policy?.inherit !== 'all' ||
+          parsed.sandbox_workspace_write?.network_access !== false || merged.split('[shell_environment_policy]').length !== 2 ||
+          merged.indexOf('approval_policy') > merged.indexOf('[shell_environment_policy]')) {
+        throw new Error(`Existing config.toml should be merged by key and table:\n${merged}`);
+      }
+      await init(existingDir);
+      if (await fs.readFile(existingConfig, 'utf-8') !== merged) {
+        throw new Error('Re-running init should leave a merged config.toml unchanged');
+      }
+    } finally {
+      await cleanup(existingDir);
+    }
+    
+    console.log('✓ config.toml reflects the project, flags and config file with TOML escaping');
   } finally {
     await cleanup(testDir);
   }
@@ -407,6 +1864,59 @@ async function testAtomicFunctions() {
   }
 }
 
+async function testTomlParser() {
+  console.log('Testing the built-in TOML parser...');
+  const { isDeepStrictEqual } = require('node:util');
+  const { parseToml, TomlError, renderCodexConfig, detectProjectContext, getTemplateVariables } = await loadModule();
+  const fixtures = join(__dirname, 'fixtures', 'toml');
+  
+  for (const file of (await fs.readdir(fixtures)).filter(name => name.endsWith('.toml'))) {
+    const parsed = parseToml(await fs.readFile(join(fixtures, file), 'utf-8'));
+    const expected = JSON.parse(await fs.readFile(join(fixtures, file.replace(/\.toml$/, '.json')), 'utf-8'));
+    if (!isDeepStrictEqual(parsed, expected)) {
+      throw new Error(`${file} parsed incorrectly: ${JSON.stringify(parsed)}`);
+    }
+  }
+  
+  for (const file of await fs.readdir(join(fixtures, 'invalid'))) {
+    try {
+      parseToml(await fs.readFile(join(fixtures, 'invalid', file), 'utf-8'));
+    } catch (error) {
+      if (error instanceof TomlError && error.line > 0) continue;
+      throw error;
+    }
+    throw new Error(`invalid/${file} was accepted`);
+  }
+  
+  const special = parseToml('a = inf\nb = -inf\nc = nan\n');
+  if (special.a !== Infinity || special.b !== -Infinity || !Number.isNaN(special.c)) {
+    throw new Error(`Special floats parsed incorrectly: ${JSON.stringify(special)}`);
+  }
+  
+  const config = parseToml(renderCodexConfig({ PROJECT_NAME: 'x' }, {
+    writableRoots: ['echo "a\\b"\tc'],
+    shellEnvironment: { set: { 'KEY WITH SPACE': 'line\nbreak' } }
+  }));
+  const roots = config.sandbox_workspace_write.writable_roots;
+  if (roots[0] !== 'echo "a\\b"\tc' || config.shell_environment_policy.set['KEY WITH SPACE'] !== 'line\nbreak') {
+    throw new Error(`Generated config.toml does not round-trip: ${JSON.stringify(config)}`);
+  }
+  
+  const testDir = await createTempDir();
+  try {
+    await fs.copyFile(join(fixtures, 'cargo.toml'), join(testDir, 'Cargo.toml'));
+    const context = await detectProjectContext(testDir);
+    const variables = await getTemplateVariables(context, testDir);
+    if (variables.PURPOSE !== 'Fast, "safe" file\nscanner') {
+      throw new Error(`Cargo.toml description read incorrectly: ${JSON.stringify(variables.PURPOSE)}`);
+    }
+  } finally {
+    await cleanup(testDir);
+  }
+  
+  console.log('✓ TOML fixtures parse to the expected values and invalid documents are rejected');
+}
+
 async function testUtilityFunctions() {
   console.log('Testing utility functions directly...');
   const { detectPackageManager, detectRuntime, detectFramework, exists } = await loadModule();
@@ -450,6 +1960,37 @@ async function testUtilityFunctions() {
   }
 }
 
+async function testYamlParser() {
+  console.log('Testing the built-in YAML reader...');
+  const { isDeepStrictEqual } = require('node:util');
+  const { parseYaml, YamlError } = await loadModule();
+  const fixtures = join(__dirname, 'fixtures', 'yaml');
+  
+  for (const file of (await fs.readdir(fixtures)).filter(name => name.endsWith('.yml'))) {
+    const parsed = parseYaml(await fs.readFile(join(fixtures, file), 'utf-8'));
+    const expected = JSON.parse(await fs.readFile(join(fixtures, file.replace(/\.yml$/, '.json')), 'utf-8'));
+    if (!isDeepStrictEqual(parsed, expected)) {
+      throw new Error(`${file} parsed incorrectly: ${JSON.stringify(parsed)}`);
+    }
+  }
+  
+  for (const file of await fs.readdir(join(fixtures, 'invalid'))) {
+    try {
+      parseYaml(await fs.readFile(join(fixtures, 'invalid', file), 'utf-8'));
+    } catch (error) {
+      if (error instanceof YamlError && error.line > 0) continue;
+      throw error;
+    }
+    throw new Error(`invalid/${file} was accepted`);
+  }
+  
+  if (parseYaml('') !== null || parseYaml('\uFEFF# only a comment\n') !== null) {
+    throw new Error('Empty YAML documents should parse to null');
+  }
+  
+  console.log('✓ YAML subset covers block and flow collections, anchors, block scalars and reports line numbers');
+}
+
 async function testTemplateRendering() {
   console.log('Testing template rendering functions...');
   const { renderTemplate, validateTemplateVariables } = await loadModule();
@@ -479,6 +2020,60 @@ async function testTemplateRendering() {
   }
 }
 
+async function testTemplateLanguage() {
+  console.log('Testing template else, loops, partials and filters...');
+  const { renderTemplate, validateTemplateSyntax } = await loadModule();
+  
+  const variables = {
+    PROJECT_NAME: 'demo',
+    HAS_GIT: false,
+    SCRIPTS: [{ name: 'build', command: 'npm run build' }, { name: 'lint', command: 'npm run {{lint}}' }],
+    ENV_VARS: ['API_KEY', 'DATABASE_URL']
+  };
+  
+  const cases = [
+    ['{{#HAS_GIT}}git{{else}}no git{{/HAS_GIT}}', 'no git'],
+    ['{{#each SCRIPTS}}{{@index}}:{{this.name}} {{/each}}', '0:build 1:lint '],
+    ['{{#each WORKSPACES}}x{{else}}none{{/each}}', 'none'],
+    ['{{ENV_VARS | join:" | "}}', 'API_KEY | DATABASE_URL'],
+    ['{{PROJECT_NAME | upper | code}}', '`DEMO`'],
+    ['{{> header}}', '# demo'],
+    ['{{#each SCRIPTS}}{{#@last}}{{this.command}}{{/@last}}{{/each}}', 'npm run \\{\\{lint\\}\\}'],
+    ['{{NOT_ALLOWED}} {{#NOT_ALLOWED}}x{{/NOT_ALLOWED}}', '{{NOT_ALLOWED}} ']
+  ];
+  
+  for (const [template, expected] of cases) {
+    const rendered = renderTemplate(template, variables, { partials: { header: '# {{PROJECT_NAME}}' } });
+    if (rendered !== expected) {
+      throw new Error(`Rendering ${template} gave ${rendered}, expected ${expected}`);
+    }
+  }
+  
+  for (const invalid of ['{{#HAS_GIT}}open', '{{else}}', '{{PROJECT_NAME | shout}}', '{{#each SCRIPTS}}{{/HAS_GIT}}']) {
+    let threw = false;
+    try {
+      validateTemplateSyntax(invalid);
+    } catch {
+      threw = true;
+    }
+    if (!threw) {
+      throw new Error(`Invalid template accepted: ${invalid}`);
+    }
+  }
+  
+  let recursionStopped = false;
+  try {
+    renderTemplate('{{> loop}}', variables, { partials: { loop: '{{> loop}}' } });
+  } catch {
+    recursionStopped = true;
+  }
+  if (!recursionStopped) {
+    throw new Error('Recursive partials were not bounded');
+  }
+  
+  console.log('✓ Template language supports else, each, partials and filters');
+}
+
 async function testCommandExecution() {
   console.log('Testing command execution functions...');
   const { execute, executeQuiet, executeWithRetry } = await loadModule();
@@ -527,9 +2122,31 @@ async function runTests() {
     
     await testExistingFiles();
     await testAtomicOperations();
+    await testManagedRegions();
+    await testCheckDrift();
+    await testWorkspaces();
+    await testPackageManagers();
+    await testPythonProjects();
+    await testCompiledFrameworks();
+    await testNativeCommands();
+    await testQualityCommands();
+    await testPolyglotProjects();
+    await testCiCommands();
+    await testTestRunners();
+    await testProjectStructure();
+    await testTemplateOverrides();
+    await testCustomVariables();
+    await testConfigFile();
+    await testWizard();
+    await testBackups();
+    await testJsonOutput();
+    await testDetectCommand();
+    await testAgentFiles();
+    await testCodexConfig();
     
     await testInvalidDirectory();
     await testWriteFailure();
+    await testTransactionRollback();
     
     await testConcurrentInit();
     await testInterruptHandling();
@@ -537,7 +2154,10 @@ async function runTests() {
     
     await testAtomicFunctions();
     await testUtilityFunctions();
+    await testTomlParser();
+    await testYamlParser();
     await testTemplateRendering();
+    await testTemplateLanguage();
     await testCommandExecution();
     await testConcurrencyLimit();
     